@@ -1,14 +1,16 @@
-import { useState } from 'react';
-import { Box, Typography, CircularProgress, Alert, Paper, Card } from '@mui/material';
+import { useMemo, useState } from 'react';
+import { Box, Typography, CircularProgress, Alert, Paper, Card, Button } from '@mui/material';
 import { useQuery } from 'react-query';
-import { emailApi } from './services/api';
+import { emailApi, getSearchQueryError } from './services/api';
 import { EmailListItem } from './components/EmailListItem';
 import { EmailDetailView } from './components/EmailDetailView';
 import { SearchBar } from './components/SearchBar';
-import type { Email, EmailSearchParams, EmailCategory } from './types/email';
+import { groupIntoConversations } from './services/threads';
+import { useEmailPush } from './services/realtime';
+import type { Conversation, EmailSearchParams, EmailCategory } from './types/email';
 
 function App() {
-  const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
+  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [searchParams, setSearchParams] = useState<EmailSearchParams>({
     query: '',
     folder: undefined,
@@ -26,29 +28,35 @@ function App() {
     emailApi.getCategories
   );
 
-  const { data: emails, isLoading: emailsLoading } = useQuery(
+  // Changes are pushed by the server, so the list is no longer polled
+  const { data: emails, isLoading: emailsLoading, error: emailsQueryError } = useQuery(
     ['emails', searchParams],
     () => emailApi.search(searchParams),
     {
-      refetchInterval: 30000, // Refetch every 30 seconds
-      refetchIntervalInBackground: false, // Only refetch when tab is active
       refetchOnWindowFocus: true, // Refetch when user returns to tab
+      // Keep the last results on screen while a query is being typed or is malformed
+      keepPreviousData: true,
+      retry: (failureCount, error) => !getSearchQueryError(error) && failureCount < 3,
     }
   );
+  const searchQueryError = getSearchQueryError(emailsQueryError);
 
-  const handleEmailClick = (email: Email) => {
-    setSelectedEmail(email);
+  const { newMessages, showNewMessages } = useEmailPush(searchParams.account);
+
+  const conversations = useMemo(() => groupIntoConversations(emails || []), [emails]);
+
+  const handleConversationClick = (conversation: Conversation) => {
+    setSelectedConversation(conversation);
   };
 
   const handleBackToList = () => {
-    setSelectedEmail(null);
+    setSelectedConversation(null);
   };
 
   const { isError: accountsError } = useQuery('accounts', emailApi.getAccounts);
   const { isError: categoriesError } = useQuery('categories', emailApi.getCategories);
-  const { isError: emailsError } = useQuery(['emails', searchParams], () => emailApi.search(searchParams));
 
-  const hasError = accountsError || categoriesError || emailsError;
+  const hasError = accountsError || categoriesError || (!!emailsQueryError && !searchQueryError);
   
   if (hasError) {
     return (
@@ -101,13 +109,15 @@ function App() {
             categories={categories || [] as EmailCategory[]}
             searchParams={searchParams}
             onSearchChange={setSearchParams}
+            queryError={searchQueryError}
           />
         </Card>
 
         <Card elevation={2} sx={{ borderRadius: 3, overflow: 'hidden', width: '100%' }}>
-          {selectedEmail ? (
+          {selectedConversation ? (
             <EmailDetailView 
-              email={selectedEmail} 
+              email={selectedConversation.latest} 
+              conversationEmails={selectedConversation.emails}
               onBack={handleBackToList}
             />
           ) : (
@@ -118,12 +128,28 @@ function App() {
                 </Box>
               ) : (
                 <Box sx={{ width: '100%' }}>
-                  {emails && emails.length > 0 ? (
-                    emails.map((email) => (
+                  {newMessages > 0 && (
+                    <Alert
+                      severity="info"
+                      sx={{ borderRadius: 0 }}
+                      action={
+                        <Button color="inherit" size="small" onClick={showNewMessages}>
+                          Show
+                        </Button>
+                      }
+                    >
+                      {newMessages} new {newMessages === 1 ? 'message' : 'messages'}
+                    </Alert>
+                  )}
+                  {conversations.length > 0 ? (
+                    conversations.map((conversation) => (
                       <EmailListItem
-                        key={email.messageId || email.uid}
-                        email={email}
-                        onClick={handleEmailClick}
+                        key={conversation.id}
+                        email={conversation.latest}
+                        messageCount={conversation.emails.length}
+                        participants={conversation.participants}
+                        highlight={conversation.emails.find(email => email.highlight?.body)?.highlight}
+                        onClick={() => handleConversationClick(conversation)}
                       />
                     ))
                   ) : (
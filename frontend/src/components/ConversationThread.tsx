@@ -0,0 +1,122 @@
+import { Box, Typography, Paper, Button, Chip, CircularProgress } from '@mui/material';
+import { useState } from 'react';
+import { useQuery } from 'react-query';
+import { emailApi } from '../services/api';
+import { getSenderName, splitQuotedText } from '../services/threads';
+import type { Email } from '../types/email';
+import { EmailHtmlBody } from './EmailHtmlBody';
+
+interface ConversationThreadProps {
+    email: Email;
+    // Emails of the conversation found in the list, used when the server has no thread for it
+    conversationEmails: Email[];
+}
+
+interface ThreadMessageProps {
+    email: Email;
+    defaultExpanded: boolean;
+}
+
+const MessageBody = ({ email }: { email: Email }) => {
+    const [showQuoted, setShowQuoted] = useState(false);
+    const { text, quoted } = splitQuotedText(email.body || '');
+    const hasQuoted = email.htmlBody ? email.htmlBody.includes('<blockquote') : !!quoted;
+
+    return (
+        <Box>
+            {email.htmlBody ? (
+                <EmailHtmlBody html={email.htmlBody} from={email.from} hideQuoted={!showQuoted} />
+            ) : (
+                <Typography component="div" sx={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>
+                    {(showQuoted ? email.body : text) || 'No message content available'}
+                </Typography>
+            )}
+            {hasQuoted && (
+                <Button size="small" sx={{ mt: 1 }} onClick={() => setShowQuoted(!showQuoted)}>
+                    {showQuoted ? 'Hide quoted text' : 'Show quoted text'}
+                </Button>
+            )}
+        </Box>
+    );
+};
+
+const ThreadMessage = ({ email, defaultExpanded }: ThreadMessageProps) => {
+    const [expanded, setExpanded] = useState(defaultExpanded);
+    const preview = splitQuotedText(email.body || '').text.replace(/\s+/g, ' ').trim();
+
+    return (
+        <Paper variant="outlined" sx={{ mb: 1, backgroundColor: expanded ? 'background.paper' : 'grey.50' }}>
+            <Box
+                sx={{ display: 'flex', alignItems: 'baseline', gap: 1, px: 2, py: 1.5, cursor: 'pointer' }}
+                onClick={() => setExpanded(!expanded)}
+            >
+                <Typography variant="body2" sx={{ fontWeight: 600, flexShrink: 0 }}>
+                    {getSenderName(email.from)}
+                </Typography>
+                <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{ flexGrow: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                >
+                    {expanded ? `to ${email.to}` : preview}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ flexShrink: 0 }}>
+                    {new Date(email.date).toLocaleString()}
+                </Typography>
+            </Box>
+            {expanded && (
+                <Box sx={{ px: 2, pb: 2 }}>
+                    <MessageBody email={email} />
+                </Box>
+            )}
+        </Paper>
+    );
+};
+
+/**
+ * The whole conversation of an email, oldest first, with earlier messages collapsed
+ */
+export const ConversationThread = ({ email, conversationEmails }: ConversationThreadProps) => {
+    const { data: thread, isLoading } = useQuery(
+        ['thread', email.threadId],
+        () => emailApi.getThread(email.threadId!),
+        { enabled: !!email.threadId }
+    );
+
+    const byDateAsc = (a: Email, b: Email) => new Date(a.date).getTime() - new Date(b.date).getTime();
+    const messages = [...(thread?.messages || conversationEmails)].sort(byDateAsc);
+    const latest = messages[messages.length - 1];
+
+    if (isLoading) {
+        return (
+            <Box display="flex" justifyContent="center" sx={{ py: 4 }}>
+                <CircularProgress size={32} />
+            </Box>
+        );
+    }
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Typography variant="h6">
+                    {messages.length > 1 ? 'Conversation' : 'Message'}
+                </Typography>
+                {messages.length > 1 && (
+                    <Chip label={`${messages.length} messages`} size="small" variant="outlined" />
+                )}
+            </Box>
+            {thread && thread.participants.length > 1 && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    <strong>Participants:</strong> {thread.participants.map(getSenderName).join(', ')}
+                </Typography>
+            )}
+            {messages.map(message => (
+                <ThreadMessage
+                    key={`${message.accountName}-${message.folder}-${message.uid}`}
+                    email={message}
+                    defaultExpanded={message === latest || message.messageId === email.messageId}
+                />
+            ))}
+        </Box>
+    );
+};
@@ -14,9 +14,13 @@ import { ArrowBack } from '@mui/icons-material';
 import { useState } from 'react';
 import type { Email, EmailCategory, SuggestedReply } from '../types/email';
 import { SuggestedRepliesComponent } from './SuggestedRepliesComponent';
+import { ConversationThread } from './ConversationThread';
+import { ReplyDialog } from './ReplyDialog';
 
 interface EmailDetailViewProps {
     email: Email;
+    // Emails of the same conversation found in the list
+    conversationEmails?: Email[];
     onBack: () => void;
 }
 
@@ -54,19 +58,17 @@ const getCategoryDescription = (category: EmailCategory): string => {
     }
 };
 
-export const EmailDetailView = ({ email, onBack }: EmailDetailViewProps) => {
+export const EmailDetailView = ({ email, conversationEmails, onBack }: EmailDetailViewProps) => {
     const displayCategory = email.category?.category || (email.categories && email.categories[0]);
     const [tabValue, setTabValue] = useState(0);
+    const [selectedReply, setSelectedReply] = useState<SuggestedReply | null>(null);
 
     const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
         setTabValue(newValue);
     };
 
     const handleReplySelect = (reply: SuggestedReply) => {
-        // In a real application, this would open a compose window or copy to clipboard
-        console.log('Selected reply:', reply);
-        navigator.clipboard.writeText(`Subject: ${reply.subject}\n\nBody:\n${reply.body}`);
-        alert('Reply copied to clipboard!');
+        setSelectedReply(reply);
     };
 
     return (
@@ -118,6 +120,11 @@ export const EmailDetailView = ({ email, onBack }: EmailDetailViewProps) => {
                     <Typography variant="body2" color="text.secondary">
                         <strong>Folder:</strong> {email.folder}
                     </Typography>
+                    {email.labels && email.labels.length > 0 && (
+                        <Typography variant="body2" color="text.secondary">
+                            <strong>Labels:</strong> {email.labels.join(', ')}
+                        </Typography>
+                    )}
                     <Typography variant="body2" color="text.secondary">
                         <strong>Account:</strong> {email.accountName || email.account}
                     </Typography>
@@ -154,25 +161,8 @@ export const EmailDetailView = ({ email, onBack }: EmailDetailViewProps) => {
 
                 <Divider sx={{ my: 2 }} />
 
-                {/* Email Body */}
-                <Box>
-                    <Typography variant="h6" gutterBottom>
-                        Message
-                    </Typography>
-                    <Paper 
-                        variant="outlined" 
-                        sx={{ 
-                            p: 2, 
-                            backgroundColor: 'grey.50',
-                            whiteSpace: 'pre-wrap',
-                            fontFamily: 'monospace'
-                        }}
-                    >
-                        <Typography component="div">
-                            {email.body || 'No message content available'}
-                        </Typography>
-                    </Paper>
-                </Box>
+                {/* Conversation */}
+                <ConversationThread email={email} conversationEmails={conversationEmails || [email]} />
 
                 {/* Flags */}
                 {email.flags && email.flags.length > 0 && (
@@ -199,6 +189,15 @@ export const EmailDetailView = ({ email, onBack }: EmailDetailViewProps) => {
                     />
                 </Box>
             )}
+
+            {selectedReply && (
+                <ReplyDialog
+                    key={selectedReply.id}
+                    email={email}
+                    reply={selectedReply}
+                    onClose={() => setSelectedReply(null)}
+                />
+            )}
         </Box>
     );
 };
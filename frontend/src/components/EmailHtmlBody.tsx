@@ -0,0 +1,122 @@
+import { Box, Alert, Button, Stack } from '@mui/material';
+import { useMemo, useRef, useState } from 'react';
+import { API_BASE_URL } from '../services/api';
+import {
+    allowImagesFromSender,
+    disallowImagesFromSender,
+    getSenderAddress,
+    isImageSenderAllowed
+} from '../services/imagePreferences';
+
+interface EmailHtmlBodyProps {
+    html: string;
+    from: string;
+    // Hide quoted replies (blockquotes) until the reader asks for them
+    hideQuoted?: boolean;
+}
+
+const API_ORIGIN = new URL(API_BASE_URL).origin;
+
+// The server moves remote image sources to data-remote-src; restore them only when allowed
+const restoreRemoteImages = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('img[data-remote-src]').forEach(img => {
+        img.setAttribute('src', img.getAttribute('data-remote-src') || '');
+        img.removeAttribute('data-remote-src');
+    });
+    return doc.body.innerHTML;
+};
+
+const buildDocument = (html: string, loadImages: boolean, hideQuoted: boolean): string => {
+    // The CSP is a second line of defence: nothing but inline styles and our own
+    // attachment URLs can load unless remote images were allowed
+    const imageSources = loadImages ? `${API_ORIGIN} data: https: http:` : `${API_ORIGIN} data:`;
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src ${imageSources}">
+<base href="${API_ORIGIN}/" target="_blank">
+<style>body { margin: 0; font-family: sans-serif; overflow-wrap: break-word; } img { max-width: 100%; height: auto; }${hideQuoted ? ' blockquote { display: none; }' : ''}</style>
+</head>
+<body>${loadImages ? restoreRemoteImages(html) : html}</body>
+</html>`;
+};
+
+/**
+ * Renders a sanitized HTML email body in a sandboxed iframe (no scripts, isolated styles),
+ * with remote images blocked unless the reader allows them once or for the sender
+ */
+export const EmailHtmlBody = ({ html, from, hideQuoted = false }: EmailHtmlBodyProps) => {
+    const [loadImages, setLoadImages] = useState(() => isImageSenderAllowed(from));
+    const [senderAllowed, setSenderAllowed] = useState(() => isImageSenderAllowed(from));
+    const [height, setHeight] = useState(200);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+
+    const hasRemoteImages = html.includes('data-remote-src');
+    const srcDoc = useMemo(() => buildDocument(html, loadImages, hideQuoted), [html, loadImages, hideQuoted]);
+
+    const handleLoad = () => {
+        // Scripts never run inside the frame; same-origin access is only used to size it to its content
+        const body = frameRef.current?.contentDocument?.body;
+        if (body) {
+            setHeight(body.scrollHeight + 16);
+        }
+    };
+
+    const handleAlwaysLoad = () => {
+        allowImagesFromSender(from);
+        setSenderAllowed(true);
+        setLoadImages(true);
+    };
+
+    const handleStopLoading = () => {
+        disallowImagesFromSender(from);
+        setSenderAllowed(false);
+        setLoadImages(false);
+    };
+
+    return (
+        <Box>
+            {hasRemoteImages && !loadImages && (
+                <Alert
+                    severity="info"
+                    sx={{ mb: 2 }}
+                    action={
+                        <Stack direction="row" spacing={1}>
+                            <Button color="inherit" size="small" onClick={() => setLoadImages(true)}>
+                                Load images
+                            </Button>
+                            <Button color="inherit" size="small" onClick={handleAlwaysLoad}>
+                                Always from sender
+                            </Button>
+                        </Stack>
+                    }
+                >
+                    Remote images are blocked to protect your privacy.
+                </Alert>
+            )}
+            {hasRemoteImages && senderAllowed && (
+                <Alert
+                    severity="success"
+                    sx={{ mb: 2 }}
+                    action={
+                        <Button color="inherit" size="small" onClick={handleStopLoading}>
+                            Block again
+                        </Button>
+                    }
+                >
+                    Images are always loaded from {getSenderAddress(from)}.
+                </Alert>
+            )}
+            <iframe
+                ref={frameRef}
+                title="Email content"
+                sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+                srcDoc={srcDoc}
+                onLoad={handleLoad}
+                style={{ width: '100%', height, border: 'none', display: 'block' }}
+            />
+        </Box>
+    );
+};
@@ -1,11 +1,34 @@
 import { Card, CardContent, Typography, Chip, Stack, Box, Avatar } from '@mui/material';
-import type { Email, EmailCategory } from '../types/email';
+import type { Email, EmailCategory, SearchHighlight } from '../types/email';
 
 interface EmailListItemProps {
     email: Email;
     onClick: (email: Email) => void;
+    // Set when the item stands for a conversation; `email` is then its latest message
+    messageCount?: number;
+    participants?: string[];
+    // Search match of another message in the conversation, shown when `email` itself has none
+    highlight?: SearchHighlight;
 }
 
+/**
+ * A highlight fragment as text with its <mark>ed terms emphasized. Parsing it as HTML decodes
+ * the escaped text, and only text and <mark> nodes are rendered.
+ */
+const renderHighlight = (fragment: string) =>
+    Array.from(new DOMParser().parseFromString(fragment, 'text/html').body.childNodes).map((node, index) =>
+        node.nodeName === 'MARK'
+            ? (
+                <Box
+                    component="mark"
+                    key={index}
+                    sx={{ bgcolor: 'warning.light', color: 'inherit', fontWeight: 600, borderRadius: 0.5, px: 0.25 }}
+                >
+                    {node.textContent}
+                </Box>
+            )
+            : node.textContent);
+
 const getCategoryColor = (category: EmailCategory): "default" | "primary" | "secondary" | "error" | "info" | "success" | "warning" => {
     switch (category) {
         case 'INTERESTED':
@@ -23,11 +46,16 @@ const getCategoryColor = (category: EmailCategory): "default" | "primary" | "sec
     }
 };
 
-export const EmailListItem = ({ email, onClick }: EmailListItemProps) => {
+export const EmailListItem = ({ email, onClick, messageCount = 1, participants = [], highlight }: EmailListItemProps) => {
     const displayCategory = email.category?.category || (email.categories && email.categories[0]);
-    const bodyPreview = email.body ? 
-        (email.body.length > 150 ? email.body.substring(0, 150) + '...' : email.body) 
-        : 'No message content';
+    const subjectHighlight = email.highlight?.subject?.[0];
+    const bodyHighlight = email.highlight?.body || highlight?.body;
+    // Where the search matched, otherwise the start of the body
+    const bodyPreview = bodyHighlight
+        ? renderHighlight(bodyHighlight.join(' … '))
+        : email.body ?
+            (email.body.length > 150 ? email.body.substring(0, 150) + '...' : email.body)
+            : 'No message content';
 
     // Extract first name/initials from sender
     const getInitials = (name: string) => {
@@ -38,6 +66,10 @@ export const EmailListItem = ({ email, onClick }: EmailListItemProps) => {
         email.from.split('<')[0].trim() : 
         email.from.split('@')[0];
 
+    const participantNames = participants.length > 1 ?
+        (participants.length > 3 ? `${participants.slice(0, 3).join(', ')} +${participants.length - 3}` : participants.join(', ')) :
+        senderName;
+
     return (
         <Card 
             sx={{ 
@@ -100,7 +132,7 @@ export const EmailListItem = ({ email, onClick }: EmailListItemProps) => {
                                     mr: 1
                                 }}
                             >
-                                {email.subject || '(No Subject)'}
+                                {subjectHighlight ? renderHighlight(subjectHighlight) : email.subject || '(No Subject)'}
                             </Typography>
                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
                                 {displayCategory && (
@@ -122,11 +154,28 @@ export const EmailListItem = ({ email, onClick }: EmailListItemProps) => {
                             <Typography 
                                 color="text.primary" 
                                 variant="body2"
-                                sx={{ fontWeight: 500 }}
+                                sx={{ 
+                                    fontWeight: 500,
+                                    overflow: 'hidden',
+                                    textOverflow: 'ellipsis',
+                                    whiteSpace: 'nowrap'
+                                }}
                             >
-                                {senderName}
+                                {participantNames}
                             </Typography>
-                            <Typography color="text.secondary" variant="caption">
+                            {messageCount > 1 && (
+                                <Chip 
+                                    label={messageCount} 
+                                    size="small" 
+                                    sx={{ 
+                                        height: 20,
+                                        fontSize: '0.7rem',
+                                        fontWeight: 600,
+                                        '& .MuiChip-label': { px: 1 }
+                                    }}
+                                />
+                            )}
+                            <Typography color="text.secondary" variant="caption" sx={{ flexShrink: 0 }}>
                                 • {new Date(email.date).toLocaleDateString()} at {new Date(email.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                             </Typography>
                         </Box>
@@ -0,0 +1,141 @@
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    Button,
+    Alert,
+    FormControlLabel,
+    Checkbox,
+    Typography
+} from '@mui/material';
+import { useState } from 'react';
+import { useMutation } from 'react-query';
+import axios from 'axios';
+import { emailApi } from '../services/api';
+import type { Email, SavedDraft, SentReply, SuggestedReply } from '../types/email';
+
+interface ReplyDialogProps {
+    email: Email;
+    reply: SuggestedReply;
+    onClose: () => void;
+}
+
+const getErrorMessage = (error: unknown): string => {
+    if (axios.isAxiosError(error) && error.response?.data?.error) {
+        return error.response.data.error;
+    }
+    return error instanceof Error ? error.message : 'Failed to send reply';
+};
+
+/**
+ * Edit a suggested reply and send it from the email's account, or copy it instead
+ */
+export const ReplyDialog = ({ email, reply, onClose }: ReplyDialogProps) => {
+    const [subject, setSubject] = useState(reply.subject);
+    const [body, setBody] = useState(reply.body);
+    const [quote, setQuote] = useState(true);
+    const [copied, setCopied] = useState(false);
+
+    const sendMutation = useMutation<SentReply, unknown>(
+        () => emailApi.sendReply(email.messageId, { subject, body, quote })
+    );
+
+    // Saving again replaces the previous version of the draft
+    const [draftUid, setDraftUid] = useState<number | undefined>();
+    const draftMutation = useMutation<SavedDraft, unknown>(
+        () => emailApi.saveDraft(email.messageId, { subject, body, quote }, draftUid),
+        { onSuccess: (draft) => setDraftUid(draft.uid) }
+    );
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(`Subject: ${subject}\n\nBody:\n${body}`);
+        setCopied(true);
+    };
+
+    const sent = sendMutation.data;
+
+    return (
+        <Dialog open onClose={onClose} fullWidth maxWidth="md">
+            <DialogTitle>Reply to {email.from}</DialogTitle>
+            <DialogContent>
+                {sent ? (
+                    <Alert severity="success">
+                        Reply sent to {sent.to.join(', ')}
+                        {sent.sentFolder ? ` and saved to ${sent.sentFolder}` : ''}.
+                    </Alert>
+                ) : (
+                    <>
+                        {sendMutation.isError && (
+                            <Alert severity="error" sx={{ mb: 2 }}>
+                                {getErrorMessage(sendMutation.error)}
+                            </Alert>
+                        )}
+                        {draftMutation.isError && (
+                            <Alert severity="error" sx={{ mb: 2 }}>
+                                {getErrorMessage(draftMutation.error)}
+                            </Alert>
+                        )}
+                        {draftMutation.data && (
+                            <Alert severity="success" sx={{ mb: 2 }}>
+                                Draft saved to {draftMutation.data.folder}. Open it in your mail client to finish it.
+                            </Alert>
+                        )}
+                        {copied && (
+                            <Alert severity="info" sx={{ mb: 2 }}>
+                                Reply copied to clipboard.
+                            </Alert>
+                        )}
+                        <TextField
+                            label="Subject"
+                            value={subject}
+                            onChange={(e) => setSubject(e.target.value)}
+                            fullWidth
+                            margin="normal"
+                        />
+                        <TextField
+                            label="Message"
+                            value={body}
+                            onChange={(e) => setBody(e.target.value)}
+                            fullWidth
+                            multiline
+                            minRows={8}
+                            margin="normal"
+                        />
+                        <FormControlLabel
+                            control={<Checkbox checked={quote} onChange={(e) => setQuote(e.target.checked)} />}
+                            label="Quote the original message"
+                        />
+                        <Typography variant="caption" color="text.secondary" display="block">
+                            Sent from {email.accountName || email.account} and saved to its Sent folder.
+                        </Typography>
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {sent ? (
+                    <Button onClick={onClose}>Close</Button>
+                ) : (
+                    <>
+                        <Button onClick={onClose}>Cancel</Button>
+                        <Button onClick={handleCopy}>Copy</Button>
+                        <Button
+                            onClick={() => draftMutation.mutate()}
+                            disabled={!body.trim() || draftMutation.isLoading}
+                        >
+                            {draftMutation.isLoading ? 'Saving...' : 'Save as draft'}
+                        </Button>
+                        <Button
+                            variant="contained"
+                            onClick={() => sendMutation.mutate()}
+                            disabled={!body.trim() || sendMutation.isLoading}
+                        >
+                            {sendMutation.isLoading ? 'Sending...' : 'Send'}
+                        </Button>
+                    </>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
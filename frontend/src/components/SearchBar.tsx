@@ -7,9 +7,11 @@ interface SearchBarProps {
     categories: EmailCategory[];
     searchParams: EmailSearchParams;
     onSearchChange: (params: EmailSearchParams) => void;
+    // Why the server rejected the query text, shown under the field
+    queryError?: string;
 }
 
-export const SearchBar = ({ accounts, categories, searchParams, onSearchChange }: SearchBarProps) => {
+export const SearchBar = ({ accounts, categories, searchParams, onSearchChange, queryError }: SearchBarProps) => {
     return (
         <Box sx={{ 
             display: 'flex', 
@@ -19,9 +21,11 @@ export const SearchBar = ({ accounts, categories, searchParams, onSearchChange }
         }}>
             <TextField
                 fullWidth
-                placeholder="Search your emails..."
+                placeholder="Search your emails... e.g. from:alice is:unread has:attachment"
                 value={searchParams.query}
                 onChange={(e) => onSearchChange({ ...searchParams, query: e.target.value })}
+                error={!!queryError}
+                helperText={queryError}
                 InputProps={{
                     startAdornment: (
                         <InputAdornment position="start">
@@ -5,17 +5,27 @@ import type {
     EmailAccount, 
     EmailSearchParams, 
     EmailCategory,
+    EmailThread,
     SuggestedReply,
+    SendReplyRequest,
+    SentReply,
+    SavedDraft,
     ReplyTemplate,
     ReplyGenerationOptions
 } from '../types/email';
 
-const API_BASE_URL = 'http://localhost:3000/api';
+export const API_BASE_URL = 'http://localhost:3000/api';
 
 const api = axios.create({
     baseURL: API_BASE_URL,
 });
 
+/**
+ * The server's explanation when it rejects a malformed search query, e.g. an unclosed quote
+ */
+export const getSearchQueryError = (error: unknown): string | undefined =>
+    axios.isAxiosError(error) && error.response?.status === 400 ? error.response.data?.error : undefined;
+
 export const emailApi = {
     search: async (params: EmailSearchParams): Promise<Email[]> => {
         const { data } = await api.get('/emails/search', {
@@ -28,6 +38,11 @@ export const emailApi = {
         return data.results || [];
     },
 
+    getThread: async (threadId: string): Promise<EmailThread> => {
+        const { data } = await api.get(`/threads/${encodeURIComponent(threadId)}`);
+        return data;
+    },
+
     getFolders: async (accountId?: string): Promise<EmailFolder[]> => {
         const { data } = await api.get('/folders', { params: { accountId } });
         return data;
@@ -49,6 +64,16 @@ export const emailApi = {
         return data;
     },
 
+    sendReply: async (messageId: string, reply: SendReplyRequest): Promise<SentReply> => {
+        const { data } = await api.post(`/emails/${encodeURIComponent(messageId)}/reply`, reply);
+        return data;
+    },
+
+    saveDraft: async (messageId: string, reply: SendReplyRequest, replaceUid?: number): Promise<SavedDraft> => {
+        const { data } = await api.post(`/emails/${encodeURIComponent(messageId)}/drafts`, { ...reply, replaceUid });
+        return data;
+    },
+
     testSuggestedReplies: async (): Promise<SuggestedReply[]> => {
         const { data } = await api.post('/suggested-replies/test');
         return data;
@@ -0,0 +1,32 @@
+const STORAGE_KEY = 'imageAllowedSenders';
+
+const readAllowedSenders = (): string[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+// "Jane Doe <jane@example.com>" -> "jane@example.com"
+export const getSenderAddress = (from: string): string => {
+    const match = from.match(/<([^>]+)>/);
+    return (match ? match[1] : from).trim().toLowerCase();
+};
+
+export const isImageSenderAllowed = (from: string): boolean =>
+    readAllowedSenders().includes(getSenderAddress(from));
+
+export const allowImagesFromSender = (from: string): void => {
+    const address = getSenderAddress(from);
+    const senders = readAllowedSenders();
+    if (!senders.includes(address)) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([...senders, address]));
+    }
+};
+
+export const disallowImagesFromSender = (from: string): void => {
+    const address = getSenderAddress(from);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(readAllowedSenders().filter(sender => sender !== address)));
+};
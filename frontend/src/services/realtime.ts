@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient, type QueryClient } from 'react-query';
+import { io } from 'socket.io-client';
+import { API_BASE_URL } from './api';
+import type {
+    Email,
+    EmailCategorizedEvent,
+    EmailDeletedEvent,
+    EmailFlagsEvent,
+    EmailThread
+} from '../types/email';
+
+// Socket.IO runs on the API server, outside the /api path
+const SOCKET_URL = API_BASE_URL.replace(/\/api$/, '');
+
+const isSame = (email: Email, accountName: string, folder: string, uid: number): boolean =>
+    email.accountName === accountName && email.folder === folder && email.uid === uid;
+
+/**
+ * Apply a change to every cached email list and thread. Returning null removes the email.
+ */
+const patchCachedEmails = (queryClient: QueryClient, patch: (email: Email) => Email | null) => {
+    const apply = (emails: Email[]) => emails.flatMap(email => {
+        const patched = patch(email);
+        return patched ? [patched] : [];
+    });
+
+    queryClient.setQueriesData<Email[] | undefined>('emails', emails => emails && apply(emails));
+    queryClient.setQueriesData<EmailThread | undefined>('thread', thread => {
+        if (!thread) {
+            return thread;
+        }
+        const messages = apply(thread.messages);
+        return { ...thread, messages, messageCount: messages.length };
+    });
+};
+
+/**
+ * Live updates pushed by the API server for one account, or all accounts. Category, flag and
+ * deletion events patch the cached lists in place. New emails are only counted, so the list
+ * doesn't shift under the reader; showNewMessages refetches to bring them in.
+ */
+export const useEmailPush = (account?: string) => {
+    const queryClient = useQueryClient();
+    const [newMessages, setNewMessages] = useState(0);
+
+    useEffect(() => {
+        setNewMessages(0);
+        const socket = io(SOCKET_URL);
+
+        // Also runs after every reconnect, which starts with no rooms
+        socket.on('connect', () => {
+            socket.emit('subscribe', account ? [account] : []);
+        });
+
+        // Events sent while disconnected are lost, so catch up from the server
+        socket.io.on('reconnect', () => {
+            queryClient.invalidateQueries('emails');
+        });
+
+        socket.on('email:new', () => {
+            setNewMessages(count => count + 1);
+        });
+
+        socket.on('email:categorized', (event: EmailCategorizedEvent) => {
+            patchCachedEmails(queryClient, email => isSame(email, event.accountName, event.folder, event.uid)
+                ? { ...email, category: event.category }
+                : email);
+        });
+
+        socket.on('email:flags', (event: EmailFlagsEvent) => {
+            const changes = new Map(event.changes.map(change => [change.uid, change]));
+            patchCachedEmails(queryClient, email => {
+                const change = email.accountName === event.accountName && email.folder === event.folder
+                    ? changes.get(email.uid)
+                    : undefined;
+                return change ? { ...email, flags: change.flags, labels: change.labels ?? email.labels } : email;
+            });
+        });
+
+        socket.on('email:deleted', (event: EmailDeletedEvent) => {
+            const uids = event.uids && new Set(event.uids);
+            patchCachedEmails(queryClient, email =>
+                email.accountName === event.accountName && email.folder === event.folder && (!uids || uids.has(email.uid))
+                    ? null
+                    : email);
+        });
+
+        return () => {
+            socket.disconnect();
+        };
+    }, [account, queryClient]);
+
+    const showNewMessages = useCallback(() => {
+        setNewMessages(0);
+        queryClient.invalidateQueries('emails');
+    }, [queryClient]);
+
+    return { newMessages, showNewMessages };
+};
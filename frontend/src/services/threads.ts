@@ -0,0 +1,122 @@
+import type { Conversation, Email } from '../types/email';
+
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|antw|rif|r|tr)(\[\d+\])?\s*:\s*)+/i;
+
+export const normalizeSubject = (subject: string): string =>
+    (subject || '').replace(SUBJECT_PREFIX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const getSenderName = (from: string): string =>
+    from.includes('<') ? from.split('<')[0].trim().replace(/^"|"$/g, '') || from : from.split('@')[0];
+
+const emailKey = (email: Email): string => email.messageId || `${email.accountName}-${email.folder}-${email.uid}`;
+
+/**
+ * Group emails into conversations. The server's threadId is used when present; otherwise
+ * threads are reconstructed from reply headers, and replies without them are matched by subject.
+ */
+export const groupIntoConversations = (emails: Email[]): Conversation[] => {
+    // Union-find over emails, linked through threadId, Message-ID references and subjects
+    const parent = new Map<string, string>();
+    const find = (key: string): string => {
+        let root = key;
+        while (parent.get(root) !== root) {
+            root = parent.get(root)!;
+        }
+        parent.set(key, root);
+        return root;
+    };
+    const union = (a: string, b: string) => {
+        parent.set(find(a), find(b));
+    };
+
+    const byMessageId = new Map<string, string>();
+    const byThreadId = new Map<string, string>();
+    const bySubject = new Map<string, string>();
+    const unique = new Map<string, Email>();
+
+    emails.forEach(email => {
+        const key = emailKey(email);
+        if (unique.has(key)) {
+            return; // The same message copied into several folders is listed once
+        }
+        unique.set(key, email);
+        parent.set(key, key);
+        if (email.messageId) {
+            byMessageId.set(email.messageId, key);
+        }
+    });
+
+    unique.forEach((email, key) => {
+        if (email.threadId) {
+            const other = byThreadId.get(email.threadId);
+            if (other) {
+                union(key, other);
+            } else {
+                byThreadId.set(email.threadId, key);
+            }
+            return;
+        }
+
+        const related = [email.inReplyTo, ...(email.references || [])]
+            .filter((id): id is string => !!id && byMessageId.has(id));
+        related.forEach(id => union(key, byMessageId.get(id)!));
+
+        if (related.length === 0 && !email.inReplyTo && !(email.references || []).length) {
+            const subject = normalizeSubject(email.subject);
+            if (!subject) {
+                return;
+            }
+            const other = bySubject.get(subject);
+            if (other && subject !== email.subject.trim().toLowerCase()) {
+                union(key, other);
+            } else if (!other) {
+                bySubject.set(subject, key);
+            }
+        }
+    });
+
+    const groups = new Map<string, Email[]>();
+    unique.forEach((email, key) => {
+        const root = find(key);
+        groups.set(root, [...(groups.get(root) || []), email]);
+    });
+
+    const byDateDesc = (a: Email, b: Email) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+    return [...groups.entries()]
+        .map(([root, members]) => {
+            const sorted = [...members].sort(byDateDesc);
+            return {
+                id: sorted[0].threadId || root,
+                latest: sorted[0],
+                emails: sorted,
+                participants: [...new Set(sorted.map(email => getSenderName(email.from)))]
+            };
+        })
+        .sort((a, b) => byDateDesc(a.latest, b.latest));
+};
+
+// Lines like "On Tue, 3 Jun 2025 at 10:00, Jane <jane@example.com> wrote:" start the quoted part of a reply
+const QUOTE_HEADER = /^(On .+wrote:|-{2,}\s*Original Message\s*-{2,}|From: .+)$/i;
+
+/**
+ * Split a plain-text body into the new text and the quoted history below it
+ */
+export const splitQuotedText = (body: string): { text: string; quoted: string } => {
+    const lines = (body || '').split('\n');
+
+    let start = lines.findIndex((line, index) =>
+        QUOTE_HEADER.test(line.trim()) && lines.slice(index + 1).some(next => next.startsWith('>') || next.trim()));
+    if (start === -1) {
+        start = lines.findIndex((line, index) =>
+            line.startsWith('>') && lines.slice(index).every(rest => rest.startsWith('>') || !rest.trim()));
+    }
+
+    if (start <= 0) {
+        return { text: body, quoted: '' };
+    }
+    return {
+        text: lines.slice(0, start).join('\n').trimEnd(),
+        quoted: lines.slice(start).join('\n')
+    };
+};
@@ -7,12 +7,52 @@ export interface Email {
     to: string | string[];
     date: string;
     body: string;
+    htmlBody?: string;
     folder: string;
     account: string;
     accountName: string;
     categories: EmailCategory[];
     category?: EmailCategoryInfo;
     flags: string[];
+    attachments?: EmailAttachment[];
+    threadId?: string;
+    inReplyTo?: string;
+    references?: string[];
+    // Gmail only: the folders (labels) the message shows up in
+    labels?: string[];
+    // Search results only: where the query matched
+    highlight?: SearchHighlight;
+}
+
+// Fragments with the matched terms in <mark> tags; the text around them is HTML-escaped
+export interface SearchHighlight {
+    subject?: string[];
+    body?: string[];
+}
+
+export interface EmailThread {
+    threadId: string;
+    subject: string;
+    messageCount: number;
+    participants: string[];
+    messages: Email[];
+}
+
+// A group of emails from the list that belong to the same thread
+export interface Conversation {
+    id: string;
+    latest: Email;
+    emails: Email[];
+    participants: string[];
+}
+
+export interface EmailAttachment {
+    filename: string;
+    contentType: string;
+    size: number;
+    contentId?: string;
+    hash: string;
+    inline: boolean;
 }
 
 export interface EmailCategoryInfo {
@@ -57,6 +97,63 @@ export interface SuggestedReply {
     body: string;
 }
 
+export interface SendReplyRequest {
+    body: string;
+    subject?: string;
+    quote?: boolean;
+}
+
+export interface SentReply {
+    messageId: string;
+    to: string[];
+    cc: string[];
+    subject: string;
+    sentFolder?: string;
+}
+
+export interface SavedDraft {
+    accountName: string;
+    folder: string;
+    uid?: number;
+    messageId: string;
+    subject: string;
+}
+
+// Events pushed by the API server over Socket.IO
+export interface NewEmailEvent {
+    accountName: string;
+    folder: string;
+    uid: number;
+    messageId: string;
+    threadId?: string;
+    subject: string;
+    from: string;
+    date: string;
+    flags: string[];
+    category?: EmailCategoryInfo;
+}
+
+export interface EmailCategorizedEvent {
+    accountName: string;
+    folder: string;
+    uid: number;
+    messageId: string;
+    category: EmailCategoryInfo;
+}
+
+export interface EmailFlagsEvent {
+    accountName: string;
+    folder: string;
+    changes: { uid: number; flags: string[]; labels?: string[] }[];
+}
+
+export interface EmailDeletedEvent {
+    accountName: string;
+    folder: string;
+    // Missing when the whole folder was dropped
+    uids?: number[];
+}
+
 export interface ReplyGenerationOptions {
     personalizeToSender?: boolean;
     includeOriginalEmail?: boolean;
@@ -1,10 +1,16 @@
+import http from 'http';
 import express from 'express';
 import cors from 'cors';
+import { Server as SocketServer } from 'socket.io';
 import { IMAPSyncManager } from './services/IMAPSyncManager';
 import { EmailSearchAPI } from './services/EmailSearchAPI';
 import { AISuggestedRepliesService } from './services/AISuggestedRepliesService';
+import { AttachmentStore } from './services/AttachmentStore';
+import { EmailPushService } from './services/EmailPushService';
 import { logger } from './utils/logger';
-import { EmailMessage, ReplyTemplate, SuggestedReply, ReplyGenerationOptions } from './types';
+import { RequestError } from './utils/errors';
+import { redactResponses } from './utils/redact';
+import { EmailMessage, EmailAttachment, ReplyTemplate, SuggestedReply, ReplyGenerationOptions } from './types';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -12,15 +18,22 @@ dotenv.config();
 
 const app = express();
 const port = process.env.API_PORT || 3000;
+const server = http.createServer(app);
+// Live updates for the web interface, on the same port as the API
+const io = new SocketServer(server, { cors: { origin: '*' } });
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
+// Mask credentials in account, sync and status responses and in error messages
+app.use(redactResponses(['/api/accounts', '/api/sync', '/api/stats', '/api/health']));
+
 // Global variables for services
 let syncManager: IMAPSyncManager;
 let searchAPI: EmailSearchAPI;
 let repliesService: AISuggestedRepliesService;
+const attachmentStore = new AttachmentStore();
 
 // Initialize services function (similar to index.ts)
 async function initializeServices() {
@@ -29,6 +42,9 @@ async function initializeServices() {
         
         // Initialize IMAP sync manager
         syncManager = new IMAPSyncManager();
+
+        // Subscribe before starting, so emails of the initial sync are pushed too
+        new EmailPushService(io).subscribe(syncManager.events);
         
         // Start synchronization for all configured accounts
         await syncManager.start();
@@ -55,11 +71,161 @@ app.get('/api/emails/search', async (req, res) => {
         const results = await searchAPI.searchEmails(searchParams);
         res.json(results);
     } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         logger.error('Search error:', error);
         res.status(500).json({ error: 'Internal server error' });
     }
 });
 
+// Attachments of a message
+app.get('/api/emails/:messageId/attachments', async (req, res) => {
+    try {
+        const { messageId } = req.params;
+        const emailResult = await searchAPI.getEmailByMessageId(messageId);
+        if (!emailResult?.success || !emailResult.email) {
+            return res.status(404).json({ error: 'Email not found' });
+        }
+
+        const attachments: EmailAttachment[] = emailResult.email.attachments || [];
+        res.json(attachments.map(attachment => ({
+            ...attachment,
+            url: `/api/emails/${encodeURIComponent(messageId)}/attachments/${attachment.hash}`
+        })));
+    } catch (error) {
+        logger.error('List attachments error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.get('/api/emails/:messageId/attachments/:hash', async (req, res) => {
+    try {
+        const { messageId, hash } = req.params;
+        const emailResult = await searchAPI.getEmailByMessageId(messageId);
+        if (!emailResult?.success || !emailResult.email) {
+            return res.status(404).json({ error: 'Email not found' });
+        }
+
+        // Only serve attachments that belong to the requested message
+        const attachment = (emailResult.email.attachments as EmailAttachment[] || []).find(item => item.hash === hash);
+        if (!attachment || !(await attachmentStore.exists(hash))) {
+            return res.status(404).json({ error: 'Attachment not found' });
+        }
+
+        res.attachment(attachment.filename);
+        res.type(attachment.contentType);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+
+        const stream = attachmentStore.createReadStream(hash);
+        stream.on('error', (error) => {
+            logger.error('Read attachment error:', error);
+            res.destroy(error);
+        });
+        stream.pipe(res);
+    } catch (error) {
+        logger.error('Download attachment error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Mailbox changes, written back to the IMAP server
+app.post('/api/emails/actions', async (req, res) => {
+    try {
+        const { action, emails, targetFolder } = req.body || {};
+        const result = await syncManager.applyEmailAction(action, emails, targetFolder);
+        res.json(result);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Email action error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.post('/api/emails/:messageId/actions', async (req, res) => {
+    try {
+        const { action, targetFolder } = req.body || {};
+        const result = await syncManager.applyEmailActionByMessageId(req.params.messageId, action, targetFolder);
+        res.json(result);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Email action error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.post('/api/emails/:messageId/reply', async (req, res) => {
+    try {
+        const sent = await syncManager.sendReply(req.params.messageId, req.body);
+        res.status(201).json(sent);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Send reply error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.post('/api/emails/:messageId/drafts', async (req, res) => {
+    try {
+        const { replaceUid, ...reply } = req.body || {};
+        const draft = await syncManager.saveDraft(req.params.messageId, reply, replaceUid);
+        res.status(201).json(draft);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Save draft error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.delete('/api/accounts/:accountName/drafts/:uid', async (req, res) => {
+    try {
+        const { accountName, uid } = req.params;
+        await syncManager.deleteDraft(accountName, Number(uid));
+        res.json({ message: `Draft ${uid} deleted` });
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Delete draft error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.get('/api/threads/:threadId', async (req, res) => {
+    try {
+        const result = await searchAPI.getThread(req.params.threadId);
+        if (!result || !result.success) {
+            return res.status(404).json({ error: 'Thread not found' });
+        }
+        res.json(result.thread);
+    } catch (error) {
+        logger.error('Get thread error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Indexed email counts, account status and pipeline counters
+app.get('/api/stats', async (req, res) => {
+    try {
+        const result = await searchAPI.getStats();
+        if (!result.success) {
+            return res.status(500).json({ error: 'Internal server error' });
+        }
+        res.json(result);
+    } catch (error) {
+        logger.error('Get stats error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 app.get('/api/folders', async (req, res) => {
     try {
         const accountId = req.query.accountId as string | undefined;
@@ -81,6 +247,89 @@ app.get('/api/accounts', async (req, res) => {
     }
 });
 
+app.get('/api/accounts/status', async (req, res) => {
+    try {
+        res.json(syncManager.getAccountStatus());
+    } catch (error) {
+        logger.error('Get account status error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Runtime account management
+app.post('/api/accounts', async (req, res) => {
+    try {
+        const account = await syncManager.addAccount(req.body);
+        res.status(201).json(account);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Add account error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.put('/api/accounts/:accountName', async (req, res) => {
+    try {
+        const account = await syncManager.updateAccount(req.params.accountName, req.body);
+        res.json(account);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Update account error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.delete('/api/accounts/:accountName', async (req, res) => {
+    try {
+        const { accountName } = req.params;
+        const purge = req.query.purge === 'true';
+        await syncManager.removeAccount(accountName, purge);
+        res.json({ message: `Account ${accountName} removed${purge ? ' and its emails purged' : ''}` });
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        logger.error('Remove account error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Full-history backfill progress and control
+app.get('/api/sync/backfill', async (req, res) => {
+    try {
+        res.json(syncManager.getBackfillProgress());
+    } catch (error) {
+        logger.error('Get backfill progress error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.post('/api/sync/backfill/start', async (req, res) => {
+    try {
+        const accountName = req.body?.accountName as string | undefined;
+        const started = syncManager.startBackfill(accountName);
+        res.json({ started, message: `Backfill started for ${started.length} account(s)` });
+    } catch (error) {
+        logger.error('Start backfill error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+app.post('/api/sync/backfill/stop', async (req, res) => {
+    try {
+        const accountName = req.body?.accountName as string | undefined;
+        const stopped = await syncManager.stopBackfill(accountName);
+        res.json({ stopped, message: `Backfill stopped for ${stopped.length} account(s)` });
+    } catch (error) {
+        logger.error('Stop backfill error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 app.get('/api/categories', async (req, res) => {
     try {
         // Return the actual categories used by the EmailCategorizationService
@@ -249,8 +498,8 @@ async function startAPIServer() {
         // First initialize all services (like index.ts does)
         await initializeServices();
         
-        // Start the Express server
-        app.listen(port, () => {
+        // Start the Express and Socket.IO server
+        server.listen(port, () => {
             logger.info(`API Server is running on port ${port}`);
             logger.info('API Server started successfully with initialized IMAP services');
         });
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IMAPConfig } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Persists accounts added at runtime through the API, so they survive restarts.
+ * Accounts defined through IMAPn_* environment variables are not stored here.
+ */
+export class AccountStore {
+    private filePath: string;
+    private accounts: IMAPConfig[] = [];
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(filePath?: string) {
+        this.filePath = filePath || process.env.ACCOUNTS_FILE || 'data/accounts.json';
+    }
+
+    /**
+     * Read the stored accounts. An unreadable or corrupt file is an error rather than an
+     * empty list, since the next save would otherwise overwrite it and lose every account.
+     */
+    async load(): Promise<IMAPConfig[]> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, 'utf8');
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`Failed to read stored accounts from ${this.filePath}: ${error.message}`);
+            }
+            this.accounts = [];
+            return [];
+        }
+
+        let accounts: unknown;
+        try {
+            accounts = JSON.parse(raw);
+        } catch (error: any) {
+            throw new Error(`Stored accounts file ${this.filePath} is corrupt (${error.message}); fix or move it away before starting`);
+        }
+        if (!Array.isArray(accounts)) {
+            throw new Error(`Stored accounts file ${this.filePath} is corrupt (expected a list of accounts); fix or move it away before starting`);
+        }
+
+        this.accounts = accounts as IMAPConfig[];
+        logger.info(`Loaded ${this.accounts.length} stored IMAP account(s) from ${this.filePath}`);
+        return [...this.accounts];
+    }
+
+    async save(config: IMAPConfig): Promise<void> {
+        const index = this.accounts.findIndex(acc => acc.accountName === config.accountName);
+        if (index >= 0) {
+            this.accounts[index] = config;
+        } else {
+            this.accounts.push(config);
+        }
+        await this.persist();
+    }
+
+    async remove(accountName: string): Promise<void> {
+        this.accounts = this.accounts.filter(acc => acc.accountName !== accountName);
+        await this.persist();
+    }
+
+    private persist(): Promise<void> {
+        // A failed write must not block later ones, but its error still reaches the caller
+        this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmpPath = `${this.filePath}.tmp`;
+            await fs.writeFile(tmpPath, JSON.stringify(this.accounts, null, 2), { encoding: 'utf8', mode: 0o600 });
+            await fs.rename(tmpPath, this.filePath);
+        });
+        return this.writeChain;
+    }
+}
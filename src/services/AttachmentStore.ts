@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { createReadStream, ReadStream, promises as fs } from 'fs';
+import path from 'path';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Content-addressed attachment storage. Files are named by the SHA-256 of their
+ * content, so an attachment received many times (or in several folders) is stored once.
+ */
+export class AttachmentStore {
+    private baseDir: string;
+
+    constructor(baseDir?: string) {
+        this.baseDir = baseDir || process.env.ATTACHMENT_STORE_DIR || 'data/attachments';
+    }
+
+    static hash(content: Buffer): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    /**
+     * Store content unless an identical file already exists, returning its hash
+     */
+    async save(content: Buffer): Promise<string> {
+        const hash = AttachmentStore.hash(content);
+        const filePath = this.getPath(hash);
+
+        if (await this.exists(hash)) {
+            return hash;
+        }
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        // Unique temp name, since the same attachment may be saved by two messages at once
+        const tmpPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        await fs.writeFile(tmpPath, content);
+        await fs.rename(tmpPath, filePath);
+
+        return hash;
+    }
+
+    async exists(hash: string): Promise<boolean> {
+        try {
+            await fs.access(this.getPath(hash));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async read(hash: string): Promise<Buffer> {
+        return fs.readFile(this.getPath(hash));
+    }
+
+    createReadStream(hash: string): ReadStream {
+        return createReadStream(this.getPath(hash));
+    }
+
+    /**
+     * Files are spread over subdirectories by hash prefix to keep directories small
+     */
+    private getPath(hash: string): string {
+        if (!HASH_PATTERN.test(hash)) {
+            throw new Error(`Invalid attachment hash: ${hash}`);
+        }
+        return path.join(this.baseDir, hash.slice(0, 2), hash);
+    }
+}
@@ -0,0 +1,120 @@
+import path from 'path';
+import { PDFParse } from 'pdf-parse';
+import mammoth from 'mammoth';
+import { logger } from '../utils/logger';
+
+type ExtractableType = 'pdf' | 'docx' | 'csv' | 'text';
+
+interface ExtractableAttachment {
+    filename?: string;
+    contentType?: string;
+    content: Buffer;
+}
+
+const CONTENT_TYPES: Record<string, ExtractableType> = {
+    'application/pdf': 'pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'text/csv': 'csv',
+    'application/csv': 'csv',
+    'text/plain': 'text',
+    'text/markdown': 'text'
+};
+
+// Mail clients often send documents as application/octet-stream, so the extension is checked too
+const EXTENSIONS: Record<string, ExtractableType> = {
+    '.pdf': 'pdf',
+    '.docx': 'docx',
+    '.csv': 'csv',
+    '.txt': 'text',
+    '.md': 'text',
+    '.log': 'text'
+};
+
+const DEFAULT_SIZE_LIMITS: Record<ExtractableType, number> = {
+    pdf: 10 * 1024 * 1024,
+    docx: 10 * 1024 * 1024,
+    csv: 5 * 1024 * 1024,
+    text: 2 * 1024 * 1024
+};
+
+/**
+ * Extracts searchable text from common document attachments, locally and without
+ * external services. Attachments over the size limit of their type are skipped.
+ */
+export class AttachmentTextExtractor {
+    private sizeLimits: Record<ExtractableType, number>;
+    private maxTextLength: number;
+
+    constructor() {
+        this.sizeLimits = {
+            pdf: this.readLimit('ATTACHMENT_TEXT_MAX_PDF_BYTES', DEFAULT_SIZE_LIMITS.pdf),
+            docx: this.readLimit('ATTACHMENT_TEXT_MAX_DOCX_BYTES', DEFAULT_SIZE_LIMITS.docx),
+            csv: this.readLimit('ATTACHMENT_TEXT_MAX_CSV_BYTES', DEFAULT_SIZE_LIMITS.csv),
+            text: this.readLimit('ATTACHMENT_TEXT_MAX_TEXT_BYTES', DEFAULT_SIZE_LIMITS.text)
+        };
+        this.maxTextLength = this.readLimit('ATTACHMENT_TEXT_MAX_CHARS', 200000);
+    }
+
+    /**
+     * Text of the attachment, or null if its type is not supported, it is too large or it cannot be parsed
+     */
+    async extract(attachment: ExtractableAttachment): Promise<string | null> {
+        const type = this.detectType(attachment);
+        if (!type) {
+            return null;
+        }
+
+        if (attachment.content.length > this.sizeLimits[type]) {
+            logger.debug(`Skipping text extraction for ${attachment.filename}: ${attachment.content.length} bytes exceeds the ${type} limit`);
+            return null;
+        }
+
+        try {
+            const text = await this.extractByType(type, attachment.content);
+            const normalized = text.replace(/\s+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+            return normalized.slice(0, this.maxTextLength) || null;
+        } catch (error) {
+            logger.warn(`Failed to extract text from attachment ${attachment.filename} (${type}): ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    }
+
+    private detectType(attachment: ExtractableAttachment): ExtractableType | null {
+        const contentType = (attachment.contentType || '').toLowerCase().split(';')[0].trim();
+        if (CONTENT_TYPES[contentType]) {
+            return CONTENT_TYPES[contentType];
+        }
+
+        const extension = path.extname(attachment.filename || '').toLowerCase();
+        return EXTENSIONS[extension] || null;
+    }
+
+    private async extractByType(type: ExtractableType, content: Buffer): Promise<string> {
+        switch (type) {
+            case 'pdf': {
+                // pdf.js takes ownership of the array it is given, so pass a copy
+                const parser = new PDFParse({ data: new Uint8Array(content) });
+                try {
+                    const result = await parser.getText({ pageJoiner: '' });
+                    return result.text;
+                } finally {
+                    await parser.destroy();
+                }
+            }
+            case 'docx': {
+                const result = await mammoth.extractRawText({ buffer: content });
+                return result.value;
+            }
+            case 'csv':
+                // Separators are turned into spaces so cell values are tokenized as words
+                return content.toString('utf8').replace(/[,;\t]/g, ' ');
+            case 'text':
+                return content.toString('utf8');
+        }
+    }
+
+    private readLimit(envKey: string, fallback: number): number {
+        const value = parseInt(process.env[envKey] || '');
+        return isNaN(value) || value <= 0 ? fallback : value;
+    }
+}
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AccountSecrets } from '../types';
+import { logger } from '../utils/logger';
+
+interface EncryptedEntry {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+interface VaultFile {
+    version: number;
+    salt: string;
+    // HMAC of a fixed label under the derived key; identifies the key without revealing it
+    keyFingerprint: string;
+    entries: Record<string, EncryptedEntry>;
+}
+
+interface VaultKey {
+    key: Buffer;
+    salt: Buffer;
+    fingerprint: string;
+}
+
+const CIPHER = 'aes-256-gcm';
+const FINGERPRINT_LABEL = 'imap-sync-credential-vault';
+
+/**
+ * Stores account secrets (passwords, OAuth2 refresh tokens and client secrets)
+ * encrypted with AES-256-GCM under a key derived from CREDENTIAL_MASTER_KEY.
+ * Secrets stay encrypted in memory and are only decrypted when a connection is opened.
+ *
+ * To rotate the master key, set the new key as CREDENTIAL_MASTER_KEY and the old one
+ * as CREDENTIAL_MASTER_KEY_PREVIOUS; the vault is re-encrypted on the next load.
+ * Without a master key the vault lives in memory only, under a random per-process key.
+ */
+export class CredentialVault {
+    private filePath: string;
+    private masterKey?: string;
+    private previousMasterKey?: string;
+    private vaultKey: VaultKey;
+    private entries: Record<string, EncryptedEntry> = {};
+    private isLoaded: boolean = false;
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(filePath?: string, masterKey?: string, previousMasterKey?: string) {
+        this.filePath = filePath || process.env.CREDENTIAL_VAULT_FILE || 'data/credentials.vault.json';
+        this.masterKey = masterKey || process.env.CREDENTIAL_MASTER_KEY || undefined;
+        this.previousMasterKey = previousMasterKey || process.env.CREDENTIAL_MASTER_KEY_PREVIOUS || undefined;
+        this.vaultKey = this.masterKey
+            ? this.deriveKey(this.masterKey, crypto.randomBytes(16))
+            : this.createEphemeralKey();
+    }
+
+    /**
+     * Whether secrets survive restarts; false when no master key is configured
+     */
+    isPersistent(): boolean {
+        return !!this.masterKey;
+    }
+
+    async load(): Promise<void> {
+        if (this.isLoaded) {
+            return;
+        }
+        this.isLoaded = true;
+
+        if (!this.masterKey) {
+            logger.warn('CREDENTIAL_MASTER_KEY not configured. Credentials are kept in memory only and runtime accounts cannot be stored.');
+            return;
+        }
+
+        let file: VaultFile;
+        try {
+            file = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as VaultFile;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`Failed to read credential vault ${this.filePath}: ${error.message}`);
+            }
+            return;
+        }
+
+        const salt = Buffer.from(file.salt, 'base64');
+        const currentKey = this.deriveKey(this.masterKey, salt);
+
+        if (currentKey.fingerprint === file.keyFingerprint) {
+            this.vaultKey = currentKey;
+            this.entries = file.entries || {};
+            logger.info(`Loaded credentials for ${Object.keys(this.entries).length} account(s) from ${this.filePath}`);
+            return;
+        }
+
+        if (this.previousMasterKey) {
+            const previousKey = this.deriveKey(this.previousMasterKey, salt);
+            if (previousKey.fingerprint === file.keyFingerprint) {
+                this.vaultKey = previousKey;
+                this.entries = file.entries || {};
+                await this.rotateKey(this.masterKey);
+                return;
+            }
+        }
+
+        throw new Error(`Credential vault ${this.filePath} was encrypted with a different master key`);
+    }
+
+    has(accountName: string): boolean {
+        return !!this.entries[accountName];
+    }
+
+    /**
+     * Decrypt an account's secrets; callers should not hold on to the result
+     */
+    getSecrets(accountName: string): AccountSecrets | undefined {
+        const entry = this.entries[accountName];
+        if (!entry) {
+            return undefined;
+        }
+        return this.decrypt(accountName, entry, this.vaultKey);
+    }
+
+    async setSecrets(accountName: string, secrets: AccountSecrets): Promise<void> {
+        this.entries[accountName] = this.encrypt(accountName, secrets, this.vaultKey);
+        await this.persist();
+    }
+
+    async remove(accountName: string): Promise<void> {
+        if (!this.entries[accountName]) {
+            return;
+        }
+        delete this.entries[accountName];
+        await this.persist();
+    }
+
+    /**
+     * Re-encrypt every entry under a new master key with a fresh salt
+     */
+    async rotateKey(newMasterKey: string): Promise<void> {
+        const newKey = this.deriveKey(newMasterKey, crypto.randomBytes(16));
+
+        const rotated: Record<string, EncryptedEntry> = {};
+        for (const [accountName, entry] of Object.entries(this.entries)) {
+            rotated[accountName] = this.encrypt(accountName, this.decrypt(accountName, entry, this.vaultKey), newKey);
+        }
+
+        this.entries = rotated;
+        this.vaultKey = newKey;
+        this.masterKey = newMasterKey;
+        await this.persist();
+
+        logger.info(`Re-encrypted credentials for ${Object.keys(rotated).length} account(s) with the new master key`);
+    }
+
+    private encrypt(accountName: string, secrets: AccountSecrets, vaultKey: VaultKey): EncryptedEntry {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(CIPHER, vaultKey.key, iv);
+        // Binding the account name means entries cannot be swapped between accounts
+        cipher.setAAD(Buffer.from(accountName, 'utf8'));
+        const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+        return {
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+    }
+
+    private decrypt(accountName: string, entry: EncryptedEntry, vaultKey: VaultKey): AccountSecrets {
+        const decipher = crypto.createDecipheriv(CIPHER, vaultKey.key, Buffer.from(entry.iv, 'base64'));
+        decipher.setAAD(Buffer.from(accountName, 'utf8'));
+        decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+        const plain = Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]);
+
+        return JSON.parse(plain.toString('utf8')) as AccountSecrets;
+    }
+
+    private deriveKey(masterKey: string, salt: Buffer): VaultKey {
+        const key = crypto.scryptSync(masterKey, salt, 32);
+        const fingerprint = crypto.createHmac('sha256', key).update(FINGERPRINT_LABEL).digest('hex');
+        return { key, salt, fingerprint };
+    }
+
+    private createEphemeralKey(): VaultKey {
+        const key = crypto.randomBytes(32);
+        return { key, salt: Buffer.alloc(0), fingerprint: '' };
+    }
+
+    private persist(): Promise<void> {
+        if (!this.masterKey) {
+            return Promise.resolve();
+        }
+
+        const file: VaultFile = {
+            version: 1,
+            salt: this.vaultKey.salt.toString('base64'),
+            keyFingerprint: this.vaultKey.fingerprint,
+            entries: this.entries
+        };
+
+        // A failed write must not block later ones, but its error still reaches the caller
+        this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmpPath = `${this.filePath}.tmp`;
+            await fs.writeFile(tmpPath, JSON.stringify(file, null, 2), { encoding: 'utf8', mode: 0o600 });
+            await fs.rename(tmpPath, this.filePath);
+        });
+        return this.writeChain;
+    }
+}
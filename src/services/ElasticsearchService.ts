@@ -1,8 +1,50 @@
 import { Client } from '@elastic/elasticsearch';
-import { ElasticsearchConfig, EmailMessage, IndexedEmail, EmailSearchQuery, EmailSearchResult } from '../types';
+import { ElasticsearchConfig, EmailMessage, IndexedEmail, IndexedEmailWithCategory, EmailSearchQuery, EmailSearchResult, SearchExpression } from '../types';
 import { logger } from '../utils/logger';
+import { EmailStore } from './EmailStore';
+
+// Fields added after the original mapping; also put on existing indexes at startup
+const EXTENDED_PROPERTIES: Record<string, any> = {
+    attachmentText: {
+        type: 'text',
+        analyzer: 'email_analyzer'
+    },
+    // Stored for display only; searches use the plain-text body
+    htmlBody: {
+        type: 'text',
+        index: false
+    },
+    threadId: { type: 'keyword' },
+    inReplyTo: { type: 'keyword' },
+    references: { type: 'keyword' },
+    normalizedSubject: { type: 'keyword' },
+    labels: { type: 'keyword' },
+    gmailMessageId: { type: 'keyword' },
+    gmailThreadId: { type: 'keyword' },
+    attachments: {
+        type: 'nested',
+        properties: {
+            filename: {
+                type: 'text',
+                fields: {
+                    keyword: { type: 'keyword' }
+                }
+            },
+            contentType: { type: 'keyword' },
+            size: { type: 'long' },
+            contentId: { type: 'keyword' },
+            hash: { type: 'keyword' },
+            inline: { type: 'boolean' }
+        }
+    }
+};
 
-export class ElasticsearchService {
+// Fields free text is matched against, with and without attachment contents
+const MESSAGE_TEXT_FIELDS = ['subject^2', 'body', 'from', 'to'];
+const ALL_TEXT_FIELDS = [...MESSAGE_TEXT_FIELDS, 'attachmentText'];
+
+export class ElasticsearchService implements EmailStore {
+    readonly backend = 'elasticsearch';
     private client: Client;
     private index: string;
 
@@ -83,7 +125,8 @@ export class ElasticsearchService {
                                         categorizedAt: { type: 'date' },
                                         geminiResponse: { type: 'text' }
                                     }
-                                }
+                                },
+                                ...EXTENDED_PROPERTIES
                             }
                         }
                     }
@@ -92,6 +135,7 @@ export class ElasticsearchService {
                 logger.info(`Created Elasticsearch index: ${this.index}`);
             } else {
                 logger.info(`Elasticsearch index ${this.index} already exists`);
+                await this.updateMappings();
             }
 
             // Test the connection
@@ -104,6 +148,26 @@ export class ElasticsearchService {
         }
     }
 
+    async close(): Promise<void> {
+        await this.client.close();
+    }
+
+    /**
+     * Add fields introduced since the index was created; existing fields cannot change type
+     */
+    private async updateMappings(): Promise<void> {
+        try {
+            await this.client.indices.putMapping({
+                index: this.index,
+                body: {
+                    properties: EXTENDED_PROPERTIES
+                }
+            });
+        } catch (error) {
+            logger.warn(`Failed to update mappings of index ${this.index}; recreate it to pick up new fields:`, error);
+        }
+    }
+
     /**
      * Index an email document
      */
@@ -161,16 +225,8 @@ export class ElasticsearchService {
                 refresh: true
             });
 
-            if (response.errors) {
-                logger.warn('Some emails failed to index during bulk operation');
-                response.items?.forEach((item: any, index: number) => {
-                    if (item.index?.error) {
-                        logger.error(`Failed to index email ${emails[index].messageId}:`, item.index.error);
-                    }
-                });
-            } else {
-                logger.info(`Successfully bulk indexed ${emails.length} emails`);
-            }
+            this.checkBulkResponse(response, 'index', 'index');
+            logger.info(`Successfully bulk indexed ${emails.length} emails`);
 
         } catch (error) {
             logger.error('Failed to bulk index emails:', error);
@@ -193,6 +249,18 @@ export class ElasticsearchService {
                 sort: [
                     { date: { order: 'desc' } }
                 ],
+                // Extracted attachment text can be large and is only needed for matching
+                _source: { excludes: ['attachmentText'] },
+                // Matched terms for the result list; the html encoder escapes the text around the tags
+                highlight: {
+                    pre_tags: ['<mark>'],
+                    post_tags: ['</mark>'],
+                    encoder: 'html',
+                    fields: {
+                        subject: { number_of_fragments: 0 },
+                        body: { fragment_size: 150, number_of_fragments: 2 }
+                    }
+                },
                 from,
                 size
             };
@@ -202,13 +270,18 @@ export class ElasticsearchService {
                 searchBody.query.bool.must.push({
                     multi_match: {
                         query: query.text,
-                        fields: ['subject^2', 'body', 'from', 'to'],
+                        fields: query.includeAttachments === false ? MESSAGE_TEXT_FIELDS : ALL_TEXT_FIELDS,
                         type: 'best_fields',
                         fuzziness: 'AUTO'
                     }
                 });
             }
 
+            // A parsed search string, e.g. `from:alice is:unread invoice`
+            if (query.expression) {
+                searchBody.query.bool.must.push(this.buildExpressionQuery(query.expression, query.includeAttachments !== false));
+            }
+
             // Add specific field filters
             if (query.subject) {
                 searchBody.query.bool.filter.push({
@@ -235,9 +308,7 @@ export class ElasticsearchService {
             }
 
             if (query.folder) {
-                searchBody.query.bool.filter.push({
-                    term: { folder: query.folder }
-                });
+                searchBody.query.bool.filter.push(ElasticsearchService.folderQuery(query.folder));
             }
 
             if (query.flags && query.flags.length > 0) {
@@ -280,7 +351,8 @@ export class ElasticsearchService {
 
             const hits = response.hits.hits?.map((hit: any) => ({
                 ...hit._source,
-                _score: hit._score
+                _score: hit._score,
+                highlight: hit.highlight
             })) || [];
 
             const total = typeof response.hits.total === 'number' 
@@ -298,6 +370,84 @@ export class ElasticsearchService {
         }
     }
 
+    /**
+     * Translate a parsed search string into query DSL; text terms must all match
+     */
+    private buildExpressionQuery(expression: SearchExpression, includeAttachments: boolean): any {
+        switch (expression.type) {
+            case 'and':
+                return { bool: { must: expression.clauses.map(clause => this.buildExpressionQuery(clause, includeAttachments)) } };
+
+            case 'or':
+                return {
+                    bool: {
+                        should: expression.clauses.map(clause => this.buildExpressionQuery(clause, includeAttachments)),
+                        minimum_should_match: 1
+                    }
+                };
+
+            case 'not':
+                return { bool: { must_not: [this.buildExpressionQuery(expression.clause, includeAttachments)] } };
+
+            case 'text':
+                if (expression.field) {
+                    return expression.phrase
+                        ? { match_phrase: { [expression.field]: expression.value } }
+                        : { match: { [expression.field]: { query: expression.value, operator: 'and' } } };
+                }
+                return {
+                    multi_match: {
+                        query: expression.value,
+                        fields: includeAttachments ? ALL_TEXT_FIELDS : MESSAGE_TEXT_FIELDS,
+                        ...(expression.phrase
+                            ? { type: 'phrase' }
+                            : { type: 'best_fields', operator: 'and', fuzziness: 'AUTO' })
+                    }
+                };
+
+            case 'category':
+                return { term: { 'category.category': expression.category } };
+
+            case 'flag':
+                return expression.present
+                    ? { term: { flags: expression.flag } }
+                    : { bool: { must_not: [{ term: { flags: expression.flag } }] } };
+
+            case 'hasAttachment':
+                // Inline images are part of the body, not attachments
+                return {
+                    nested: {
+                        path: 'attachments',
+                        query: { term: { 'attachments.inline': false } }
+                    }
+                };
+
+            case 'date':
+                return { range: { date: expression.before ? { lt: expression.before } : { gte: expression.after } } };
+
+            case 'folder':
+                return ElasticsearchService.folderQuery(expression.folder);
+
+            case 'account':
+                return { term: { accountName: expression.accountName } };
+        }
+    }
+
+    /**
+     * Gmail messages are indexed once, under All Mail, and carry their other folders as labels
+     */
+    private static folderQuery(folder: string): any {
+        return {
+            bool: {
+                should: [
+                    { term: { folder } },
+                    { term: { labels: folder } }
+                ],
+                minimum_should_match: 1
+            }
+        };
+    }
+
     /**
      * Get a specific email by messageId
      */
@@ -397,6 +547,408 @@ export class ElasticsearchService {
         }
     }
 
+    /**
+     * Delete all emails of one folder, e.g. after the server reset its UIDVALIDITY
+     */
+    async deleteEmailsByFolder(accountName: string, folder: string): Promise<void> {
+        try {
+            await this.client.deleteByQuery({
+                index: this.index,
+                refresh: true,
+                conflicts: 'proceed',
+                body: {
+                    query: {
+                        bool: {
+                            filter: [
+                                { term: { accountName } },
+                                { term: { folder } }
+                            ]
+                        }
+                    }
+                }
+            });
+
+            logger.info(`Deleted all emails in folder ${folder} for account: ${accountName}`);
+
+        } catch (error) {
+            logger.error(`Failed to delete emails in folder ${folder} for account ${accountName}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the UID and flags of every indexed email in a folder
+     */
+    async getIndexedFlags(accountName: string, folder: string): Promise<Map<number, string[]>> {
+        try {
+            const indexed = new Map<number, string[]>();
+            let searchAfter: any[] | undefined;
+
+            // Page through the folder with search_after so large folders are not truncated
+            while (true) {
+                const response = await this.client.search({
+                    index: this.index,
+                    body: {
+                        query: {
+                            bool: {
+                                filter: [
+                                    { term: { accountName } },
+                                    { term: { folder } }
+                                ]
+                            }
+                        },
+                        _source: ['uid', 'flags'],
+                        sort: [{ uid: { order: 'asc' } }],
+                        size: 1000,
+                        ...(searchAfter ? { search_after: searchAfter } : {})
+                    }
+                });
+
+                const hits = response.hits.hits || [];
+                hits.forEach((hit: any) => {
+                    indexed.set(hit._source.uid, hit._source.flags || []);
+                });
+
+                if (hits.length < 1000) {
+                    break;
+                }
+                searchAfter = hits[hits.length - 1].sort;
+            }
+
+            return indexed;
+
+        } catch (error) {
+            logger.error(`Failed to get indexed flags for ${accountName}/${folder}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the flags, and for Gmail the labels, of indexed emails in a folder
+     */
+    async updateEmailFlags(accountName: string, folder: string, updates: { uid: number; flags: string[]; labels?: string[] }[]): Promise<void> {
+        if (updates.length === 0) return;
+
+        try {
+            const body = [];
+
+            for (const update of updates) {
+                body.push({
+                    update: {
+                        _index: this.index,
+                        _id: `${accountName}-${folder}-${update.uid}`,
+                        retry_on_conflict: 3
+                    }
+                });
+                body.push({ doc: update.labels ? { flags: update.flags, labels: update.labels } : { flags: update.flags } });
+            }
+
+            const response = await this.client.bulk({ body, refresh: true });
+            this.checkBulkResponse(response, 'update', 'update flags of');
+
+            logger.info(`Updated flags of ${updates.length} email(s) in ${accountName}/${folder}`);
+
+        } catch (error) {
+            logger.error(`Failed to update flags in ${accountName}/${folder}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get indexed emails of a folder by UID, with their full documents
+     */
+    async getEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<IndexedEmailWithCategory[]> {
+        if (uids.length === 0) return [];
+
+        try {
+            const response = await this.client.mget({
+                index: this.index,
+                body: {
+                    ids: uids.map(uid => `${accountName}-${folder}-${uid}`)
+                }
+            });
+
+            return response.docs
+                .filter((doc: any) => doc.found)
+                .map((doc: any) => doc._source as IndexedEmailWithCategory);
+
+        } catch (error) {
+            logger.error(`Failed to get emails from ${accountName}/${folder}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete the emails of an account outside one folder, e.g. per-folder copies of Gmail
+     * messages once the account is indexed from All Mail alone
+     */
+    async deleteEmailsOutsideFolder(accountName: string, folder: string): Promise<number> {
+        try {
+            const response = await this.client.deleteByQuery({
+                index: this.index,
+                refresh: true,
+                conflicts: 'proceed',
+                body: {
+                    query: {
+                        bool: {
+                            filter: [{ term: { accountName } }],
+                            must_not: [{ term: { folder } }]
+                        }
+                    }
+                }
+            });
+
+            const deleted = response.deleted || 0;
+            if (deleted > 0) {
+                logger.info(`Deleted ${deleted} email(s) outside ${folder} for account: ${accountName}`);
+            }
+            return deleted;
+
+        } catch (error) {
+            logger.error(`Failed to delete emails outside ${folder} for account ${accountName}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete specific emails of a folder, e.g. after they were expunged or moved on the server
+     */
+    async deleteEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<void> {
+        if (uids.length === 0) return;
+
+        try {
+            const body = uids.map(uid => ({
+                delete: {
+                    _index: this.index,
+                    _id: `${accountName}-${folder}-${uid}`
+                }
+            }));
+
+            const response = await this.client.bulk({ body, refresh: true });
+            this.checkBulkResponse(response, 'delete', 'delete');
+            logger.info(`Deleted ${uids.length} email(s) from ${accountName}/${folder}`);
+
+        } catch (error) {
+            logger.error(`Failed to delete emails from ${accountName}/${folder}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Throw when bulk items failed for any reason other than a missing document, which
+     * just means the email was never indexed or is already gone
+     */
+    private checkBulkResponse(response: any, operation: 'index' | 'update' | 'delete', description: string): void {
+        if (!response.errors) return;
+
+        const failed = (response.items || [])
+            .map((item: any) => item[operation])
+            .filter((result: any) => result?.error && result.status !== 404);
+        failed.forEach((result: any) => logger.error(`Failed to ${description} ${result._id}:`, result.error));
+
+        if (failed.length > 0) {
+            const { error } = failed[0];
+            throw new Error(`Failed to ${description} ${failed.length} email(s): ${error.reason || error.type || JSON.stringify(error)}`);
+        }
+    }
+
+    /**
+     * Thread IDs of indexed emails, keyed by their Message-ID
+     */
+    async getThreadIdsByMessageIds(messageIds: string[]): Promise<Map<string, string>> {
+        const threadIds = new Map<string, string>();
+        if (messageIds.length === 0) return threadIds;
+
+        try {
+            const response = await this.client.search({
+                index: this.index,
+                body: {
+                    query: {
+                        bool: {
+                            filter: [
+                                { terms: { messageId: messageIds } },
+                                { exists: { field: 'threadId' } }
+                            ]
+                        }
+                    },
+                    _source: ['messageId', 'threadId'],
+                    size: Math.min(messageIds.length * 5, 1000)
+                }
+            });
+
+            (response.hits.hits || []).forEach((hit: any) => {
+                threadIds.set(hit._source.messageId, hit._source.threadId);
+            });
+
+            return threadIds;
+
+        } catch (error) {
+            logger.error('Failed to look up thread IDs by Message-ID:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Thread IDs of indexed emails that reply to or reference the given Message-ID
+     */
+    async getThreadIdsReferencing(messageId: string): Promise<string[]> {
+        try {
+            const response = await this.client.search({
+                index: this.index,
+                body: {
+                    query: {
+                        bool: {
+                            should: [
+                                { term: { inReplyTo: messageId } },
+                                { term: { references: messageId } }
+                            ],
+                            minimum_should_match: 1
+                        }
+                    },
+                    size: 0,
+                    aggs: {
+                        thread_ids: {
+                            terms: { field: 'threadId', size: 100 }
+                        }
+                    }
+                }
+            });
+
+            const buckets = (response.aggregations?.thread_ids as any)?.buckets || [];
+            return buckets.map((bucket: any) => bucket.key);
+
+        } catch (error) {
+            logger.error(`Failed to look up emails referencing ${messageId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Thread ID of an indexed email from the same Gmail conversation
+     */
+    async getThreadIdByGmailThreadId(accountName: string, gmailThreadId: string): Promise<string | null> {
+        try {
+            const response = await this.client.search({
+                index: this.index,
+                body: {
+                    query: {
+                        bool: {
+                            filter: [
+                                { term: { accountName } },
+                                { term: { gmailThreadId } },
+                                { exists: { field: 'threadId' } }
+                            ]
+                        }
+                    },
+                    _source: ['threadId'],
+                    size: 1
+                }
+            });
+
+            const hit: any = response.hits.hits?.[0];
+            return hit ? hit._source.threadId : null;
+
+        } catch (error) {
+            logger.error(`Failed to look up Gmail thread ${gmailThreadId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Thread ID of the most recent email with the same normalized subject, sent before the given date
+     */
+    async getThreadIdBySubject(normalizedSubject: string, before: Date, maxAgeDays: number): Promise<string | null> {
+        try {
+            const response = await this.client.search({
+                index: this.index,
+                body: {
+                    query: {
+                        bool: {
+                            filter: [
+                                { term: { normalizedSubject } },
+                                { exists: { field: 'threadId' } },
+                                {
+                                    range: {
+                                        date: {
+                                            lte: before,
+                                            gte: new Date(before.getTime() - maxAgeDays * 24 * 60 * 60 * 1000)
+                                        }
+                                    }
+                                }
+                            ]
+                        }
+                    },
+                    _source: ['threadId'],
+                    sort: [{ date: { order: 'desc' } }],
+                    size: 1
+                }
+            });
+
+            const hit: any = response.hits.hits?.[0];
+            return hit ? hit._source.threadId : null;
+
+        } catch (error) {
+            logger.error(`Failed to look up thread by subject "${normalizedSubject}":`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Move every email of the given threads into another thread, when a late-arriving
+     * message turns out to connect them
+     */
+    async reassignThreads(fromThreadIds: string[], toThreadId: string): Promise<void> {
+        if (fromThreadIds.length === 0) return;
+
+        try {
+            await this.client.updateByQuery({
+                index: this.index,
+                refresh: true,
+                conflicts: 'proceed',
+                body: {
+                    query: {
+                        terms: { threadId: fromThreadIds }
+                    },
+                    script: {
+                        source: 'ctx._source.threadId = params.threadId',
+                        params: { threadId: toThreadId }
+                    }
+                }
+            });
+
+            logger.info(`Merged thread(s) ${fromThreadIds.join(', ')} into ${toThreadId}`);
+
+        } catch (error) {
+            logger.error(`Failed to merge threads into ${toThreadId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * All emails of a thread, oldest first
+     */
+    async getThread(threadId: string): Promise<IndexedEmail[]> {
+        try {
+            const response = await this.client.search({
+                index: this.index,
+                body: {
+                    query: {
+                        term: { threadId }
+                    },
+                    _source: { excludes: ['attachmentText'] },
+                    sort: [{ date: { order: 'asc' } }],
+                    size: 1000
+                }
+            });
+
+            return (response.hits.hits || []).map((hit: any) => hit._source as IndexedEmail);
+
+        } catch (error) {
+            logger.error(`Failed to get thread ${threadId}:`, error);
+            throw error;
+        }
+    }
+
     /**
      * Check if email exists in index
      */
@@ -0,0 +1,63 @@
+import { PipelineStats } from '../types';
+import { EmailEventBus } from './EmailEventBus';
+
+/**
+ * Counts what flows through the email pipeline (received, categorized and indexed emails,
+ * flag changes, deletions, account state changes), per account and category.
+ * Counters live in memory and start over with the process.
+ */
+export class EmailAnalyticsService {
+    private stats: PipelineStats = {
+        since: new Date(),
+        received: 0,
+        categorized: 0,
+        indexed: 0,
+        flagsChanged: 0,
+        deleted: 0,
+        categories: {},
+        accounts: {}
+    };
+
+    subscribe(events: EmailEventBus): void {
+        events.on('email.received', ({ email }) => {
+            const account = this.getAccount(email.accountName);
+            this.stats.received++;
+            account.received++;
+            account.lastReceivedAt = new Date();
+        });
+
+        events.on('email.categorized', ({ category }) => {
+            this.stats.categorized++;
+            this.stats.categories[category.category] = (this.stats.categories[category.category] || 0) + 1;
+        });
+
+        events.on('email.indexed', ({ email }) => {
+            this.stats.indexed++;
+            this.getAccount(email.accountName).indexed++;
+        });
+
+        events.on('email.flagsChanged', ({ changes }) => {
+            this.stats.flagsChanged += changes.length;
+        });
+
+        events.on('email.deleted', ({ uids }) => {
+            // A dropped folder has no count of its own
+            this.stats.deleted += uids?.length || 0;
+        });
+
+        events.on('account.stateChanged', ({ accountName }) => {
+            this.getAccount(accountName).stateChanges++;
+        });
+    }
+
+    getStats(): PipelineStats {
+        return structuredClone(this.stats);
+    }
+
+    private getAccount(accountName: string): PipelineStats['accounts'][string] {
+        if (!this.stats.accounts[accountName]) {
+            this.stats.accounts[accountName] = { received: 0, indexed: 0, stateChanges: 0 };
+        }
+        return this.stats.accounts[accountName];
+    }
+}
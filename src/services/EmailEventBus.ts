@@ -0,0 +1,66 @@
+import { EventEmitter } from 'events';
+import { AccountConnectionState, EmailCategory, EmailMessage, IndexedEmailWithCategory } from '../types';
+import { logger } from '../utils/logger';
+
+export interface EmailFlagChange {
+    uid: number;
+    flags: string[];
+    // Gmail only
+    labels?: string[];
+}
+
+/**
+ * Events of the email pipeline and their payloads
+ */
+export interface EmailEvents {
+    // A new message was fetched and parsed, before it is categorized and indexed
+    'email.received': { email: EmailMessage };
+    // `historic` marks mail indexed by the full-history backfill rather than newly arrived mail
+    'email.categorized': { email: IndexedEmailWithCategory; category: EmailCategory; historic: boolean };
+    'email.indexed': { email: IndexedEmailWithCategory; historic: boolean };
+    // Flags (and Gmail labels) changed on the server, from this app or another client
+    'email.flagsChanged': { accountName: string; folder: string; changes: EmailFlagChange[] };
+    // Emails left a folder: expunged, moved away or deleted. Without uids the whole folder was dropped.
+    'email.deleted': { accountName: string; folder: string; uids?: number[] };
+    'account.stateChanged': { accountName: string; previous: AccountConnectionState; state: AccountConnectionState };
+}
+
+export type EmailEventName = keyof EmailEvents;
+export type EmailEventHandler<E extends EmailEventName> = (payload: EmailEvents[E]) => void | Promise<void>;
+
+/**
+ * Typed publish/subscribe for the email pipeline, so reactions to new mail (notifications,
+ * analytics, push updates) subscribe here instead of being called from the sync code.
+ * Handlers run independently: a failing or slow handler never holds up the pipeline.
+ */
+export class EmailEventBus {
+    private emitter: EventEmitter = new EventEmitter();
+
+    constructor() {
+        // Every subsystem subscribes to a handful of events, so the default warning at 10 is noise
+        this.emitter.setMaxListeners(0);
+    }
+
+    /**
+     * Subscribe to an event; returns a function that unsubscribes again
+     */
+    on<E extends EmailEventName>(event: E, handler: EmailEventHandler<E>): () => void {
+        const listener = (payload: EmailEvents[E]) => {
+            try {
+                Promise.resolve(handler(payload)).catch(error => this.reportFailure(event, error));
+            } catch (error) {
+                this.reportFailure(event, error);
+            }
+        };
+        this.emitter.on(event, listener);
+        return () => this.emitter.off(event, listener);
+    }
+
+    emit<E extends EmailEventName>(event: E, payload: EmailEvents[E]): void {
+        this.emitter.emit(event, payload);
+    }
+
+    private reportFailure(event: EmailEventName, error: unknown): void {
+        logger.error(`Handler for ${event} failed:`, error);
+    }
+}
@@ -0,0 +1,110 @@
+import { Server, Socket } from 'socket.io';
+import { IndexedEmailWithCategory } from '../types';
+import { logger } from '../utils/logger';
+import { EmailEventBus } from './EmailEventBus';
+
+// Clients that subscribe without naming accounts get the events of every account
+const ALL_ACCOUNTS_ROOM = 'accounts:all';
+
+/**
+ * Pushes pipeline events to web clients over Socket.IO. Each account has its own room;
+ * a client sends `subscribe` with the account names it shows (or none for all of them)
+ * and from then on receives:
+ * - `email:new`: a summary of each newly indexed email,
+ * - `email:categorized`: the category assigned to an email,
+ * - `email:flags`: flag (and Gmail label) changes,
+ * - `email:deleted`: emails that left a folder; without uids the whole folder was dropped.
+ * Mail indexed by the history backfill is left out of `email:new` and `email:categorized`,
+ * so importing a mailbox does not flood the client.
+ */
+export class EmailPushService {
+    private io: Server;
+
+    constructor(io: Server) {
+        this.io = io;
+        this.io.on('connection', socket => this.handleConnection(socket));
+    }
+
+    subscribe(events: EmailEventBus): void {
+        events.on('email.indexed', ({ email, historic }) => {
+            if (historic) {
+                return;
+            }
+            this.emitToAccount(email.accountName, 'email:new', EmailPushService.summarize(email));
+        });
+
+        events.on('email.categorized', ({ email, category, historic }) => {
+            if (historic) {
+                return;
+            }
+            this.emitToAccount(email.accountName, 'email:categorized', {
+                accountName: email.accountName,
+                folder: email.folder,
+                uid: email.uid,
+                messageId: email.messageId,
+                category
+            });
+        });
+
+        events.on('email.flagsChanged', ({ accountName, folder, changes }) => {
+            this.emitToAccount(accountName, 'email:flags', { accountName, folder, changes });
+        });
+
+        events.on('email.deleted', ({ accountName, folder, uids }) => {
+            this.emitToAccount(accountName, 'email:deleted', { accountName, folder, uids });
+        });
+    }
+
+    private handleConnection(socket: Socket): void {
+        logger.debug(`Push client connected: ${socket.id}`);
+
+        socket.on('subscribe', (accounts?: unknown) => {
+            // Subscribing again replaces the previous selection
+            for (const room of socket.rooms) {
+                if (room !== socket.id) {
+                    socket.leave(room);
+                }
+            }
+
+            const accountNames = Array.isArray(accounts)
+                ? accounts.filter((name): name is string => typeof name === 'string' && name.length > 0)
+                : [];
+            if (accountNames.length === 0) {
+                socket.join(ALL_ACCOUNTS_ROOM);
+            } else {
+                socket.join(accountNames.map(EmailPushService.roomFor));
+            }
+        });
+
+        socket.on('disconnect', () => {
+            logger.debug(`Push client disconnected: ${socket.id}`);
+        });
+    }
+
+    private emitToAccount(accountName: string, event: string, payload: any): void {
+        // Clients in both rooms still get the event once
+        this.io.to([EmailPushService.roomFor(accountName), ALL_ACCOUNTS_ROOM]).emit(event, payload);
+    }
+
+    private static roomFor(accountName: string): string {
+        return `account:${accountName}`;
+    }
+
+    /**
+     * What a list entry needs; the full email is fetched when it is opened
+     */
+    private static summarize(email: IndexedEmailWithCategory) {
+        return {
+            accountName: email.accountName,
+            folder: email.folder,
+            uid: email.uid,
+            messageId: email.messageId,
+            threadId: email.threadId,
+            subject: email.subject,
+            from: email.from,
+            date: email.date,
+            flags: email.flags,
+            category: email.category
+        };
+    }
+}
@@ -1,6 +1,8 @@
 import { IMAPSyncManager } from './IMAPSyncManager';
 import { EmailSearchQuery } from '../types';
 import { logger } from '../utils/logger';
+import { RequestError } from '../utils/errors';
+import { parseSearchQuery } from '../utils/searchQuery';
 
 /**
  * Email Search API - A simple interface for searching indexed emails
@@ -26,6 +28,7 @@ export class EmailSearchAPI {
         dateTo?: string;
         flags?: string[];
         categories?: string[] | string;
+        includeAttachments?: string | boolean;
         page?: number;
         size?: number;
     }): Promise<any> {
@@ -33,7 +36,11 @@ export class EmailSearchAPI {
             const query: EmailSearchQuery = {};
 
             // Build search query
-            if (searchParams.query) query.text = searchParams.query;  // Map query to text field
+            // The search string may use operators like from:, is:unread or OR; see parseSearchQuery
+            if (searchParams.query) {
+                const expression = parseSearchQuery(searchParams.query);
+                if (expression) query.expression = expression;
+            }
             if (searchParams.subject) query.subject = searchParams.subject;
             if (searchParams.from) query.from = searchParams.from;
             if (searchParams.to) query.to = searchParams.to;
@@ -51,6 +58,9 @@ export class EmailSearchAPI {
                 }
             }
             if (searchParams.flags) query.flags = searchParams.flags;
+            if (searchParams.includeAttachments !== undefined) {
+                query.includeAttachments = searchParams.includeAttachments !== false && searchParams.includeAttachments !== 'false';
+            }
 
             // Parse dates
             if (searchParams.dateFrom) {
@@ -80,6 +90,10 @@ export class EmailSearchAPI {
             };
 
         } catch (error) {
+            // A malformed search string is the caller's to fix
+            if (error instanceof RequestError) {
+                throw error;
+            }
             logger.error('Search API error:', error);
             return {
                 success: false,
@@ -99,6 +113,7 @@ export class EmailSearchAPI {
             return {
                 success: true,
                 emailStats: stats,
+                pipeline: this.syncManager.getPipelineStats(),
                 accountStatus,
                 connectedAccounts: this.syncManager.getConnectedAccountsCount(),
                 totalAccounts: this.syncManager.getTotalAccountsCount()
@@ -114,16 +129,16 @@ export class EmailSearchAPI {
     }
 
     /**
-     * Get system health including Elasticsearch
+     * Get system health including the email store
      */
     async getHealth(): Promise<any> {
         try {
-            const elasticsearchHealth = await this.syncManager.getElasticsearchHealth();
+            const storeHealth = await this.syncManager.getStoreHealth();
             const accountStatus = this.syncManager.getAccountStatus();
 
             return {
                 success: true,
-                elasticsearch: elasticsearchHealth,
+                storage: storeHealth,
                 accounts: accountStatus,
                 timestamp: new Date().toISOString()
             };
@@ -194,6 +209,34 @@ export class EmailSearchAPI {
         return this.searchEmails(searchParams);
     }
 
+    /**
+     * Get the ordered conversation of a thread
+     */
+    async getThread(threadId: string): Promise<any> {
+        try {
+            const thread = await this.syncManager.getThread(threadId);
+
+            if (thread) {
+                return {
+                    success: true,
+                    thread
+                };
+            } else {
+                return {
+                    success: false,
+                    error: 'Thread not found'
+                };
+            }
+
+        } catch (error) {
+            logger.error('Failed to get thread:', error);
+            return {
+                success: false,
+                error: 'Search failed'
+            };
+        }
+    }
+
     /**
      * Get a specific email by messageId
      */
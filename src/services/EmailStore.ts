@@ -0,0 +1,81 @@
+import { EmailMessage, EmailSearchQuery, EmailSearchResult, IndexedEmail, IndexedEmailWithCategory } from '../types';
+import { logger } from '../utils/logger';
+import { ElasticsearchService } from './ElasticsearchService';
+import { SQLiteEmailStore } from './SQLiteEmailStore';
+
+/**
+ * Where indexed emails live. Documents are keyed by account, folder and UID; a stored
+ * email keeps every field it was indexed with, including category and thread.
+ */
+export interface EmailStore {
+    // Name shown in logs and health reports
+    readonly backend: string;
+
+    /**
+     * Create the index or database if needed; rejects when the store is unreachable
+     */
+    initialize(): Promise<void>;
+    close(): Promise<void>;
+
+    indexEmail(email: EmailMessage): Promise<void>;
+    /**
+     * Rejects when any of the emails could not be indexed
+     */
+    bulkIndexEmails(emails: EmailMessage[]): Promise<void>;
+    emailExists(accountName: string, folder: string, uid: number): Promise<boolean>;
+
+    searchEmails(query: EmailSearchQuery, from?: number, size?: number): Promise<EmailSearchResult>;
+    getEmailByMessageId(messageId: string): Promise<IndexedEmail | null>;
+    getEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<IndexedEmailWithCategory[]>;
+    getIndexedFlags(accountName: string, folder: string): Promise<Map<number, string[]>>;
+    /**
+     * Rejects when an email could not be updated; emails that are not indexed are skipped
+     */
+    updateEmailFlags(accountName: string, folder: string, updates: { uid: number; flags: string[]; labels?: string[] }[]): Promise<void>;
+
+    /**
+     * Total count plus per-account buckets, each with per-folder buckets (`key`, `doc_count`)
+     */
+    getEmailStats(): Promise<any>;
+    getHealth(): Promise<any>;
+
+    deleteEmailsByAccount(accountName: string): Promise<void>;
+    deleteEmailsByFolder(accountName: string, folder: string): Promise<void>;
+    deleteEmailsOutsideFolder(accountName: string, folder: string): Promise<number>;
+    /**
+     * Rejects when an email could not be deleted; emails that are not indexed are skipped
+     */
+    deleteEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<void>;
+
+    getThreadIdsByMessageIds(messageIds: string[]): Promise<Map<string, string>>;
+    getThreadIdsReferencing(messageId: string): Promise<string[]>;
+    getThreadIdByGmailThreadId(accountName: string, gmailThreadId: string): Promise<string | null>;
+    getThreadIdBySubject(normalizedSubject: string, before: Date, maxAgeDays: number): Promise<string | null>;
+    reassignThreads(fromThreadIds: string[], toThreadId: string): Promise<void>;
+    getThread(threadId: string): Promise<IndexedEmail[]>;
+}
+
+/**
+ * The store selected by EMAIL_STORE: Elasticsearch by default, or the embedded SQLite database
+ */
+export function createEmailStore(): EmailStore {
+    const backend = process.env.EMAIL_STORE || 'elasticsearch';
+
+    switch (backend) {
+        case 'elasticsearch': {
+            const config = {
+                node: process.env.ELASTICSEARCH_NODE || 'http://localhost:9200',
+                index: process.env.ELASTICSEARCH_INDEX || 'imap-emails'
+            };
+            logger.info(`Email store: Elasticsearch at ${config.node}, index ${config.index}`);
+            return new ElasticsearchService(config);
+        }
+        case 'sqlite': {
+            const store = new SQLiteEmailStore();
+            logger.info(`Email store: SQLite database ${store.filePath}`);
+            return store;
+        }
+        default:
+            throw new Error(`Unknown EMAIL_STORE "${backend}"; use "elasticsearch" or "sqlite"`);
+    }
+}
@@ -1,26 +1,158 @@
 import Imap from 'imap';
-import { simpleParser } from 'mailparser';
-import { IMAPConfig, EmailMessage, IMAPAccount, IndexedEmailWithCategory, IMAPFolder, EmailFolder } from '../types';
+import { simpleParser, Attachment } from 'mailparser';
+import { IMAPConfig, OAuth2Config, SMTPConfig, AccountSecrets, EmailMessage, EmailAttachment, EmailThread, IMAPAccount, IndexedEmailWithCategory, IMAPFolder, EmailFolder, SyncMode, BackfillProgress, AccountConnectionState, AccountStatus, UpdateMode, EmailAction, EmailRef, EmailActionResult, ReplyInput, SentReply, SavedDraft, IndexedEmail, PipelineStats } from '../types';
 import { logger } from '../utils/logger';
-import { ElasticsearchService } from './ElasticsearchService';
+import { EmailStore, createEmailStore } from './EmailStore';
 import { EmailCategorizationService } from './EmailCategorizationService';
 import { NotificationService } from './NotificationService';
+import { EmailAnalyticsService } from './EmailAnalyticsService';
+import { EmailEventBus } from './EmailEventBus';
+import { SyncStateStore } from './SyncStateStore';
+import { AccountStore } from './AccountStore';
+import { OAuth2TokenProvider } from './OAuth2TokenProvider';
+import { CredentialVault } from './CredentialVault';
+import { AttachmentStore } from './AttachmentStore';
+import { AttachmentTextExtractor } from './AttachmentTextExtractor';
+import { ThreadingService } from './ThreadingService';
+import { SMTPService, SMTPAuth, OutgoingMessage } from './SMTPService';
+import { RequestError, AuthenticationError } from '../utils/errors';
+import { sanitizeEmailHtml } from '../utils/html';
+import { ProcessingQueue } from '../utils/queue';
 import { promisify } from 'util';
 
+const IDLE_FOLDER = 'INBOX';
+const FOLDER_SWEEP_INTERVAL_MS = 300000; // Check non-IDLE folders every 5 minutes
+const UPDATE_MODES: UpdateMode[] = ['idle', 'poll', 'hybrid'];
+// Sweeps in a row that find INBOX mail IDLE never announced before IDLE is backed by polling
+const MAX_MISSED_IDLE_SWEEPS = 2;
+// Gmail system labels (X-GM-LABELS) and the special-use attribute of the folder they show up as
+const GMAIL_SYSTEM_LABELS: Record<string, string> = {
+    '\\Sent': '\\Sent',
+    '\\Draft': '\\Drafts',
+    '\\Starred': '\\Flagged',
+    '\\Important': '\\Important',
+    '\\Spam': '\\Junk',
+    '\\Trash': '\\Trash'
+};
+const CHANGE_SYNC_DELAY_MS = 2000;
+const NON_SELECTABLE_ATTRIBUTES = ['\\NOSELECT', '\\NONEXISTENT'];
+const DEFAULT_OAUTH2_TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token';
+const DEFAULT_MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+const EMAIL_ACTIONS: EmailAction[] = ['markRead', 'markUnread', 'star', 'unstar', 'move', 'archive', 'delete'];
+const FLAG_ACTIONS: Partial<Record<EmailAction, { flag: string; add: boolean }>> = {
+    markRead: { flag: '\\Seen', add: true },
+    markUnread: { flag: '\\Seen', add: false },
+    star: { flag: '\\Flagged', add: true },
+    unstar: { flag: '\\Flagged', add: false }
+};
+const MAX_ACTION_EMAILS = 1000;
+// Folder names used for special folders by servers that don't announce SPECIAL-USE attributes
+const SPECIAL_FOLDER_NAMES: Record<string, RegExp> = {
+    '\\Archive': /^archives?$/i,
+    '\\All': /^all mail$/i,
+    '\\Trash': /^(trash|bin|deleted items|deleted messages)$/i,
+    '\\Sent': /^(sent|sent items|sent messages|sent mail)$/i,
+    '\\Drafts': /^drafts?$/i
+};
+
+interface RawMessage {
+    uid: number;
+    flags: string[];
+    // X-GM-LABELS, X-GM-MSGID and X-GM-THRID, on servers with X-GM-EXT-1
+    gmailLabels?: string[];
+    gmailMessageId?: string;
+    gmailThreadId?: string;
+    source: Buffer;
+    // Set when the message was larger than the size limit and its tail was dropped
+    truncated: boolean;
+}
+
+/**
+ * Collaborators the manager otherwise creates from the environment; tests pass their own
+ */
+export interface IMAPSyncManagerDependencies {
+    // Used instead of the IMAPn_* environment variables, and read-only like those accounts
+    accounts?: { config: IMAPConfig; secrets: AccountSecrets }[];
+    emailStore?: EmailStore;
+    categorizationService?: EmailCategorizationService;
+    syncStateStore?: SyncStateStore;
+    accountStore?: AccountStore;
+    credentialVault?: CredentialVault;
+    attachmentStore?: AttachmentStore;
+}
+
 export class IMAPSyncManager {
     private accounts: IMAPAccount[] = [];
     private isRunning: boolean = false;
-    private elasticsearchService!: ElasticsearchService;
+    private emailStore: EmailStore;
     private categorizationService!: EmailCategorizationService;
     private notificationService!: NotificationService;
+    private analyticsService: EmailAnalyticsService = new EmailAnalyticsService();
+    // Pipeline events; subscribe here to react to new mail, flag changes and account states
+    public readonly events: EmailEventBus = new EmailEventBus();
+    private threadingService!: ThreadingService;
     private folderCache: Map<string, IMAPFolder[]> = new Map();
-    private lastProcessedUID: Map<string, number> = new Map(); // Track last processed UID per account
+    private syncStateStore: SyncStateStore;
+    private accountStore: AccountStore;
+    private tokenProvider: OAuth2TokenProvider = new OAuth2TokenProvider();
+    private credentialVault: CredentialVault;
+    private attachmentStore: AttachmentStore;
+    private textExtractor: AttachmentTextExtractor = new AttachmentTextExtractor();
+    private smtpService: SMTPService = new SMTPService();
+    private envSecrets: Map<string, AccountSecrets> = new Map(); // Moved into the vault on start()
+    private oauth2Retried: Set<string> = new Set(); // Accounts that already retried login with a fresh token
+    private syncMode: SyncMode;
+    private backfillBatchSize: number;
+    private activeBackfills: Map<string, Promise<void>> = new Map(); // Running backfills keyed by account name
+    private backfillStopRequests: Set<string> = new Set();
+    private mailboxLocks: Map<string, Promise<void>> = new Map(); // Serializes mailbox operations per account
+    private pendingMailboxOps: Map<string, number> = new Map();
+    private selectedFolders: Map<string, string> = new Map(); // Currently selected folder per account
+    private openingFolders: Set<string> = new Set(); // Accounts with a SELECT in flight
+    private changeSyncTimers: Map<string, NodeJS.Timeout> = new Map();
+    private connectionClosed: Map<string, Promise<never>> = new Map(); // Rejects when the current connection closes
+    private reconnectBaseDelayMs: number;
+    private reconnectMaxDelayMs: number;
+    private processingQueue: ProcessingQueue; // Shared by all accounts, so AI calls stay bounded overall
+    private fetchBatchSize: number;
+    private maxMessageBytes: number;
+    private noopIntervalMs: number;
+    private statusPollIntervalMs: number;
+    private folderStatuses: Map<string, Map<string, string>> = new Map(); // Last STATUS per account and folder
+    private missedIdleSweeps: Map<string, number> = new Map();
+
+    constructor(dependencies: IMAPSyncManagerDependencies = {}) {
+        if (dependencies.accounts) {
+            dependencies.accounts.forEach(({ config, secrets }) => this.envSecrets.set(config.accountName, secrets));
+            this.accounts = dependencies.accounts.map(({ config }) => this.createAccount(config, 'env'));
+        } else {
+            this.loadAccountsFromEnv();
+        }
+
+        this.emailStore = dependencies.emailStore || createEmailStore();
+        this.threadingService = new ThreadingService(this.emailStore);
 
-    constructor() {
-        this.loadAccountsFromEnv();
-        this.initializeElasticsearch();
-        this.initializeCategorization();
+        if (dependencies.categorizationService) {
+            this.categorizationService = dependencies.categorizationService;
+        } else {
+            this.initializeCategorization();
+        }
         this.notificationService = new NotificationService();
+        this.notificationService.subscribe(this.events);
+        this.analyticsService.subscribe(this.events);
+        this.syncStateStore = dependencies.syncStateStore || new SyncStateStore();
+        this.accountStore = dependencies.accountStore || new AccountStore();
+        this.credentialVault = dependencies.credentialVault || new CredentialVault();
+        this.attachmentStore = dependencies.attachmentStore || new AttachmentStore();
+        this.syncMode = process.env.IMAP_SYNC_MODE === 'backfill' ? 'backfill' : 'recent';
+        this.backfillBatchSize = Math.max(1, parseInt(process.env.IMAP_BACKFILL_BATCH_SIZE || '50'));
+        this.reconnectBaseDelayMs = parseInt(process.env.IMAP_RECONNECT_BASE_DELAY_MS || '1000');
+        this.reconnectMaxDelayMs = parseInt(process.env.IMAP_RECONNECT_MAX_DELAY_MS || '300000');
+        this.processingQueue = new ProcessingQueue(parseInt(process.env.EMAIL_PROCESSING_CONCURRENCY || '4'));
+        this.fetchBatchSize = Math.max(1, parseInt(process.env.IMAP_FETCH_BATCH_SIZE || '25'));
+        this.maxMessageBytes = parseInt(process.env.IMAP_MAX_MESSAGE_BYTES || '') || DEFAULT_MAX_MESSAGE_BYTES;
+        this.noopIntervalMs = parseInt(process.env.IMAP_NOOP_INTERVAL_MS || '30000');
+        this.statusPollIntervalMs = parseInt(process.env.IMAP_STATUS_POLL_INTERVAL_MS || '60000');
     }
 
     async getFolders(accountId?: string): Promise<EmailFolder[]> {
@@ -33,17 +165,15 @@ export class IMAPSyncManager {
                 : this.accounts;
 
             for (const account of targetAccounts) {
-                if (!account.isConnected) {
-                    // Connect if not already connected
-                    await this.connectToAccount(account);
-                }
-
-                const imapFolders = await this.getIMAPFolders(account);
+                // Disconnected accounts reconnect on their own; fall back to the last known folder list
+                const imapFolders = account.isConnected
+                    ? await this.getIMAPFolders(account)
+                    : this.folderCache.get(account.config.accountName) || [];
                 
-                // Get email counts from Elasticsearch for each folder
+                // Get email counts from the email store for each folder
                 for (const folder of imapFolders) {
                     try {
-                        const countResult = await this.elasticsearchService.searchEmails({
+                        const countResult = await this.emailStore.searchEmails({
                             accountName: account.config.accountName,
                             folder: folder.name
                         }, 0, 0);
@@ -96,7 +226,9 @@ export class IMAPSyncManager {
                         folders.push({
                             name: path,
                             path: path,
-                            messageCount: box.messages?.total || 0
+                            messageCount: box.messages?.total || 0,
+                            attributes: box.attribs || [],
+                            specialUse: box.special_use_attrib
                         });
 
                         if (box.children) {
@@ -111,41 +243,359 @@ export class IMAPSyncManager {
         });
     }
 
-    private initializeElasticsearch(): void {
-        const elasticsearchConfig = {
-            node: process.env.ELASTICSEARCH_NODE || 'http://localhost:9200',
-            index: process.env.ELASTICSEARCH_INDEX || 'imap-emails'
-        };
+    /**
+     * Folders to synchronize for an account: every selectable folder that passes the
+     * account's include/exclude patterns. Gmail accounts sync only All Mail, where every
+     * message appears once with its labels.
+     */
+    private async getSyncFolders(account: IMAPAccount, useCache: boolean = false): Promise<string[]> {
+        const accountName = account.config.accountName;
+        let folders = useCache ? this.folderCache.get(accountName) : undefined;
+
+        if (!folders) {
+            folders = await this.getIMAPFolders(account);
+            this.folderCache.set(accountName, folders);
+        }
+
+        const includePatterns = account.config.includeFolders || [];
+        const excludePatterns = account.config.excludeFolders || [];
 
-        this.elasticsearchService = new ElasticsearchService(elasticsearchConfig);
-        logger.info(`Elasticsearch configured with node: ${elasticsearchConfig.node}, index: ${elasticsearchConfig.index}`);
+        const syncFolders = folders
+            .filter(folder => !folder.attributes.some(attr => NON_SELECTABLE_ATTRIBUTES.includes(attr.toUpperCase())))
+            .filter(folder => includePatterns.length === 0
+                || includePatterns.some(pattern => this.matchesFolderPattern(folder.path, pattern)))
+            .filter(folder => !excludePatterns.some(pattern => this.matchesFolderPattern(folder.path, pattern)))
+            .map(folder => folder.path);
+
+        return account.gmailAllMail && syncFolders.includes(account.gmailAllMail)
+            ? [account.gmailAllMail]
+            : syncFolders;
+    }
+
+    /**
+     * The folder the connection is parked on between operations, watched by IDLE or NOOP
+     */
+    private getIdleFolder(account: IMAPAccount): string {
+        return account.gmailAllMail || IDLE_FOLDER;
     }
 
-    private async connectToAccount(account: IMAPAccount): Promise<void> {
-        if (account.isConnected) {
+    /**
+     * Index a Gmail account from All Mail alone when the server supports X-GM-EXT-1 and the
+     * folder patterns keep All Mail. Other folders are labels of the same messages there, so
+     * copies indexed per folder before are removed.
+     */
+    private async setupGmailMode(account: IMAPAccount): Promise<void> {
+        const accountName = account.config.accountName;
+        account.gmailAllMail = undefined;
+        if (!account.connection.serverSupports('X-GM-EXT-1')) {
+            return;
+        }
+
+        const syncFolders = await this.getSyncFolders(account);
+        const allMail = this.findSpecialFolder(this.folderCache.get(accountName) || [], '\\All');
+        if (!allMail || !syncFolders.includes(allMail)) {
+            logger.warn(`${accountName} is a Gmail account, but its folder patterns leave out All Mail; syncing folders one by one`);
             return;
         }
 
+        account.gmailAllMail = allMail;
+        logger.info(`${accountName} is a Gmail account; indexing ${allMail} with labels`);
+        await this.emailStore.deleteEmailsOutsideFolder(accountName, allMail);
+    }
+
+    /**
+     * Gmail labels as folder paths, so a folder filter finds messages that carry its label
+     */
+    private gmailLabelsToFolders(account: IMAPAccount, labels: string[]): string[] {
+        const folders = this.folderCache.get(account.config.accountName) || [];
+        const paths = labels.map(label => {
+            if (label === '\\Inbox') {
+                return 'INBOX';
+            }
+            const specialUse = GMAIL_SYSTEM_LABELS[label];
+            return specialUse ? this.findSpecialFolder(folders, specialUse) : label;
+        });
+        return [...new Set(paths.filter((path): path is string => !!path))];
+    }
+
+    /**
+     * The Gmail label that puts a message in the given folder
+     */
+    private folderToGmailLabel(account: IMAPAccount, folder: string): string {
+        if (folder.toUpperCase() === 'INBOX') {
+            return '\\Inbox';
+        }
+        const folders = this.folderCache.get(account.config.accountName) || [];
+        const systemLabel = Object.keys(GMAIL_SYSTEM_LABELS)
+            .find(label => this.findSpecialFolder(folders, GMAIL_SYSTEM_LABELS[label]) === folder);
+        return systemLabel || folder;
+    }
+
+    /**
+     * Case-insensitive folder match where "*" matches any run of characters
+     */
+    private matchesFolderPattern(folderPath: string, pattern: string): boolean {
+        const regexSource = pattern
+            .split('*')
+            .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*');
+        return new RegExp(`^${regexSource}$`, 'i').test(folderPath);
+    }
+
+    /**
+     * Add an account at runtime: validate the connection, persist it and start syncing
+     */
+    public async addAccount(input: any): Promise<AccountStatus> {
+        if (!this.credentialVault.isPersistent()) {
+            throw new RequestError('Set CREDENTIAL_MASTER_KEY to add accounts at runtime, so their credentials can be stored encrypted', 503);
+        }
+
+        const { config, secrets } = this.normalizeAccountConfig(input);
+
+        if (this.findAccount(config.accountName)) {
+            throw new RequestError(`Account ${config.accountName} already exists`, 409);
+        }
+
+        if (!config.disabled) {
+            await this.testConnection(config, secrets);
+        }
+        await this.credentialVault.setSecrets(config.accountName, secrets);
+        await this.accountStore.save(config);
+
+        const account = this.createAccount(config, 'api');
+        this.accounts.push(account);
+        logger.info(`Added IMAP account ${config.accountName}`);
+
+        if (this.isRunning) {
+            await this.connectAndSync(account);
+        }
+
+        return this.toAccountStatus(account);
+    }
+
+    /**
+     * Update a runtime account; its sync is restarted with the new settings
+     */
+    public async updateAccount(accountName: string, changes: any): Promise<AccountStatus> {
+        const account = this.findAccount(accountName);
+        if (!account) {
+            throw new RequestError(`Account ${accountName} not found`, 404);
+        }
+        if (account.source === 'env') {
+            throw new RequestError(`Account ${accountName} is defined in environment variables and cannot be changed through the API`, 409);
+        }
+        if (changes?.accountName && changes.accountName !== accountName) {
+            throw new RequestError('Accounts cannot be renamed, since indexed emails are keyed by account name');
+        }
+
+        // Secrets left out of the request keep their stored values
+        const { config, secrets } = this.normalizeAccountConfig(
+            { ...account.config, ...changes, accountName },
+            this.credentialVault.getSecrets(accountName)
+        );
+
+        if (!config.disabled) {
+            await this.testConnection(config, secrets);
+        }
+        await this.credentialVault.setSecrets(accountName, secrets);
+        await this.accountStore.save(config);
+
+        await this.stopAccountSync(account);
+        account.config = config;
+        account.reconnectAttempts = 0;
+        account.lastError = undefined;
+        this.folderCache.delete(accountName);
+        this.tokenProvider.invalidate(accountName);
+        this.oauth2Retried.delete(accountName);
+        logger.info(`Updated IMAP account ${accountName}`);
+
+        if (this.isRunning) {
+            await this.connectAndSync(account);
+        }
+
+        return this.toAccountStatus(account);
+    }
+
+    /**
+     * Stop syncing a runtime account and forget it, optionally deleting its indexed emails
+     */
+    public async removeAccount(accountName: string, purge: boolean = false): Promise<void> {
+        const account = this.findAccount(accountName);
+        if (!account) {
+            throw new RequestError(`Account ${accountName} not found`, 404);
+        }
+        if (account.source === 'env') {
+            throw new RequestError(`Account ${accountName} is defined in environment variables and cannot be removed through the API`, 409);
+        }
+
+        await this.stopAccountSync(account);
+        this.accounts = this.accounts.filter(acc => acc !== account);
+        this.folderCache.delete(accountName);
+        this.tokenProvider.invalidate(accountName);
+        this.oauth2Retried.delete(accountName);
+
+        await this.accountStore.remove(accountName);
+        await this.credentialVault.remove(accountName);
+        await this.syncStateStore.removeAccount(accountName);
+
+        if (purge) {
+            await this.emailStore.deleteEmailsByAccount(accountName);
+        }
+
+        logger.info(`Removed IMAP account ${accountName}${purge ? ' and purged its emails' : ''}`);
+    }
+
+    private findAccount(accountName: string): IMAPAccount | undefined {
+        return this.accounts.find(acc => acc.config.accountName === accountName);
+    }
+
+    private async stopAccountSync(account: IMAPAccount): Promise<void> {
+        await this.stopBackfill(account.config.accountName);
+        await this.disconnectAccount(account);
+    }
+
+    private normalizeAccountConfig(input: any, storedSecrets?: AccountSecrets): { config: IMAPConfig; secrets: AccountSecrets } {
+        if (!input || typeof input !== 'object') {
+            throw new RequestError('Account configuration is required');
+        }
+
+        const authMethod = input.authMethod || 'password';
+        if (authMethod !== 'password' && authMethod !== 'oauth2') {
+            throw new RequestError('authMethod must be "password" or "oauth2"');
+        }
+
+        const isFilled = (value: any): boolean => typeof value === 'string' && value.trim().length > 0;
+
+        const missing = ['host', 'user', 'accountName'].filter(field => !isFilled(input[field]));
+        const password = isFilled(input.password) ? input.password : storedSecrets?.password;
+        if (authMethod === 'password' && !password) {
+            missing.push('password');
+        }
+        if (missing.length > 0) {
+            throw new RequestError(`Missing required fields: ${missing.join(', ')}`);
+        }
+
+        let oauth2: OAuth2Config | undefined;
+        const secrets: AccountSecrets = {};
+        if (authMethod === 'oauth2') {
+            const settings = input.oauth2 || {};
+            const refreshToken = isFilled(settings.refreshToken) ? settings.refreshToken.trim() : storedSecrets?.refreshToken;
+            const missingOAuth2 = [
+                ...(isFilled(settings.clientId) ? [] : ['clientId']),
+                ...(refreshToken ? [] : ['refreshToken'])
+            ];
+            if (missingOAuth2.length > 0) {
+                throw new RequestError(`Missing required oauth2 fields: ${missingOAuth2.join(', ')}`);
+            }
+            oauth2 = {
+                clientId: settings.clientId.trim(),
+                tokenEndpoint: settings.tokenEndpoint || DEFAULT_OAUTH2_TOKEN_ENDPOINT
+            };
+            secrets.refreshToken = refreshToken;
+            secrets.clientSecret = isFilled(settings.clientSecret) ? settings.clientSecret : storedSecrets?.clientSecret;
+        } else {
+            secrets.password = password;
+        }
+
+        const port = input.port === undefined ? 993 : parseInt(String(input.port));
+        if (isNaN(port) || port <= 0 || port > 65535) {
+            throw new RequestError('Port must be a number between 1 and 65535');
+        }
+
+        let smtp: SMTPConfig | undefined;
+        if (input.smtp) {
+            if (!isFilled(input.smtp.host)) {
+                throw new RequestError('Missing required smtp fields: host');
+            }
+            const smtpPort = input.smtp.port === undefined ? 587 : parseInt(String(input.smtp.port));
+            if (isNaN(smtpPort) || smtpPort <= 0 || smtpPort > 65535) {
+                throw new RequestError('SMTP port must be a number between 1 and 65535');
+            }
+            smtp = {
+                host: input.smtp.host.trim(),
+                port: smtpPort,
+                secure: input.smtp.secure === undefined ? smtpPort === 465 : input.smtp.secure === true || input.smtp.secure === 'true',
+                user: isFilled(input.smtp.user) ? input.smtp.user.trim() : undefined,
+                tlsOptions: input.smtp.tlsOptions
+            };
+            const smtpPassword = isFilled(input.smtp.password) ? input.smtp.password : storedSecrets?.smtpPassword;
+            if (smtpPassword) {
+                secrets.smtpPassword = smtpPassword;
+            }
+        }
+
+        if (input.updateMode !== undefined && input.updateMode !== null && !UPDATE_MODES.includes(input.updateMode)) {
+            throw new RequestError(`updateMode must be one of: ${UPDATE_MODES.join(', ')}`);
+        }
+
+        const toPatterns = (value: any): string[] => Array.isArray(value)
+            ? value.map(String).map(pattern => pattern.trim()).filter(pattern => pattern)
+            : this.parseFolderPatterns(value);
+
+        const config: IMAPConfig = {
+            host: input.host.trim(),
+            port,
+            user: input.user.trim(),
+            authMethod,
+            oauth2,
+            smtp,
+            tls: input.tls === undefined ? true : input.tls === true || input.tls === 'true',
+            accountName: input.accountName.trim(),
+            tlsOptions: input.tlsOptions || { rejectUnauthorized: false },
+            includeFolders: toPatterns(input.includeFolders),
+            excludeFolders: toPatterns(input.excludeFolders),
+            disabled: input.disabled === true || input.disabled === 'true',
+            updateMode: input.updateMode || undefined
+        };
+
+        return { config, secrets };
+    }
+
+    /**
+     * Log in with the given settings on a throwaway connection
+     */
+    private async testConnection(config: IMAPConfig, secrets: AccountSecrets): Promise<void> {
+        let options: any;
+        try {
+            options = await this.buildConnectionOptions(config, secrets, true);
+        } catch (error: any) {
+            logger.warn(`Connection test failed for ${config.accountName}: ${error.message}`);
+            throw new RequestError(`Connection test failed: ${error.message}`);
+        }
+
         return new Promise((resolve, reject) => {
-            const imap = new Imap(account.config);
+            const imap = new Imap({
+                ...options,
+                connTimeout: 10000,
+                authTimeout: 10000
+            });
 
             imap.once('ready', () => {
-                account.connection = imap;
-                account.isConnected = true;
-                logger.info(`Connected to IMAP server for ${account.config.user}`);
+                imap.end();
                 resolve();
             });
 
-            imap.once('error', (err: Error) => {
-                account.isConnected = false;
-                logger.error(`IMAP connection error for ${account.config.user}:`, err);
-                reject(err);
+            imap.once('error', (error: Error) => {
+                logger.warn(`Connection test failed for ${config.accountName}: ${error.message}`);
+                reject(new RequestError(`Connection test failed: ${error.message}`));
             });
 
             imap.connect();
         });
     }
 
+    private createAccount(config: IMAPConfig, source: 'env' | 'api'): IMAPAccount {
+        return {
+            config,
+            source,
+            connection: null,
+            isConnected: false,
+            state: 'disabled',
+            reconnectAttempts: 0,
+            connectionAttempt: 0
+        };
+    }
+
     private loadAccountsFromEnv(): void {
         // Load IMAP accounts from environment variables
         const accountConfigs: IMAPConfig[] = [];
@@ -160,36 +610,152 @@ export class IMAPSyncManager {
             const passwordKey = `IMAP${accountNumber}_PASSWORD`;
             const tlsKey = `IMAP${accountNumber}_TLS`;
             const nameKey = `IMAP${accountNumber}_NAME`;
+            const includeFoldersKey = `IMAP${accountNumber}_INCLUDE_FOLDERS`;
+            const excludeFoldersKey = `IMAP${accountNumber}_EXCLUDE_FOLDERS`;
+            const disabledKey = `IMAP${accountNumber}_DISABLED`;
+            const updateModeKey = `IMAP${accountNumber}_UPDATE_MODE`;
+            const authMethodKey = `IMAP${accountNumber}_AUTH_METHOD`;
+            const oauth2Prefix = `IMAP${accountNumber}_OAUTH2_`;
+            const smtpPrefix = `IMAP${accountNumber}_SMTP_`;
 
             const host = process.env[hostKey];
-            
-            if (host && process.env[userKey] && process.env[passwordKey]) {
+            const useOAuth2 = process.env[authMethodKey] === 'oauth2';
+            const accountName = process.env[nameKey] || `Account${accountNumber}`;
+
+            // Secrets may be left out of the environment once they are stored in the credential vault
+            if (host && process.env[userKey] && (!useOAuth2 || process.env[`${oauth2Prefix}CLIENT_ID`])) {
+                const secrets: AccountSecrets = useOAuth2
+                    ? {
+                        refreshToken: process.env[`${oauth2Prefix}REFRESH_TOKEN`],
+                        clientSecret: process.env[`${oauth2Prefix}CLIENT_SECRET`]
+                    }
+                    : { password: process.env[passwordKey] };
+                secrets.smtpPassword = process.env[`${smtpPrefix}PASSWORD`];
+                if (Object.values(secrets).some(value => value)) {
+                    this.envSecrets.set(accountName, secrets);
+                }
+
                 accountConfigs.push({
                     host: host,
                     port: parseInt(process.env[portKey] || '993'),
                     user: process.env[userKey] || '',
-                    password: process.env[passwordKey] || '',
+                    authMethod: useOAuth2 ? 'oauth2' : 'password',
+                    oauth2: useOAuth2 ? {
+                        clientId: process.env[`${oauth2Prefix}CLIENT_ID`] || '',
+                        tokenEndpoint: process.env[`${oauth2Prefix}TOKEN_ENDPOINT`] || DEFAULT_OAUTH2_TOKEN_ENDPOINT
+                    } : undefined,
+                    smtp: this.loadSMTPConfigFromEnv(smtpPrefix),
                     tls: process.env[tlsKey] === 'true',
-                    accountName: process.env[nameKey] || `Account${accountNumber}`,
-                    tlsOptions: { rejectUnauthorized: false }
+                    accountName,
+                    tlsOptions: { rejectUnauthorized: false },
+                    includeFolders: this.parseFolderPatterns(process.env[includeFoldersKey]),
+                    excludeFolders: this.parseFolderPatterns(process.env[excludeFoldersKey]),
+                    disabled: process.env[disabledKey] === 'true',
+                    updateMode: this.parseUpdateMode(process.env[updateModeKey], updateModeKey)
                 });
 
                 logger.info(`Discovered IMAP account ${accountNumber}: ${process.env[nameKey] || `Account${accountNumber}`}`);
             } else {
-                logger.warn(`Incomplete configuration for IMAP account ${accountNumber}. Missing required fields: host, user, or password.`);
+                logger.warn(`Incomplete configuration for IMAP account ${accountNumber}. Missing required fields: host, user, or OAuth2 client ID.`);
             }
         }
 
         // Initialize accounts
-        this.accounts = accountConfigs.map(config => ({
-            config,
-            connection: null,
-            isConnected: false
-        }));
+        this.accounts = accountConfigs.map(config => this.createAccount(config, 'env'));
 
         logger.info(`Loaded ${this.accounts.length} IMAP accounts from environment variables`);
     }
 
+    private parseUpdateMode(value: string | undefined, key: string): UpdateMode | undefined {
+        if (!value) {
+            return undefined;
+        }
+        if (!UPDATE_MODES.includes(value as UpdateMode)) {
+            logger.warn(`Ignoring ${key}=${value}; expected one of: ${UPDATE_MODES.join(', ')}`);
+            return undefined;
+        }
+        return value as UpdateMode;
+    }
+
+    private loadSMTPConfigFromEnv(prefix: string): SMTPConfig | undefined {
+        const host = process.env[`${prefix}HOST`];
+        if (!host) {
+            return undefined;
+        }
+
+        const port = parseInt(process.env[`${prefix}PORT`] || '587');
+        const secure = process.env[`${prefix}SECURE`];
+        return {
+            host,
+            port,
+            secure: secure === undefined ? port === 465 : secure === 'true',
+            user: process.env[`${prefix}USER`] || undefined,
+            tlsOptions: { rejectUnauthorized: false }
+        };
+    }
+
+    /**
+     * Add accounts created through the API; an environment account with the same name wins
+     */
+    private async loadStoredAccounts(): Promise<void> {
+        const storedConfigs = await this.accountStore.load();
+
+        for (const storedConfig of storedConfigs) {
+            const { config, secrets } = this.extractPlaintextSecrets(storedConfig);
+
+            if (this.findAccount(config.accountName)) {
+                logger.warn(`Stored account ${config.accountName} is shadowed by an environment account with the same name`);
+                continue;
+            }
+
+            // Account files written before the vault existed hold plaintext credentials
+            if (secrets) {
+                await this.credentialVault.setSecrets(config.accountName, secrets);
+                if (this.credentialVault.isPersistent()) {
+                    await this.accountStore.save(config);
+                    logger.info(`Moved stored credentials of ${config.accountName} into the credential vault`);
+                } else {
+                    logger.warn(`Stored account ${config.accountName} has plaintext credentials; set CREDENTIAL_MASTER_KEY to encrypt them`);
+                }
+            }
+
+            this.accounts.push(this.createAccount(config, 'api'));
+        }
+    }
+
+    /**
+     * Store credentials given through IMAPn_* variables in the vault. Once persisted,
+     * the variables can be removed from the environment.
+     */
+    private async importEnvSecrets(): Promise<void> {
+        for (const [accountName, secrets] of this.envSecrets) {
+            // Secrets left out of the environment keep their stored values
+            const provided = Object.fromEntries(Object.entries(secrets).filter(([, value]) => value));
+            await this.credentialVault.setSecrets(accountName, { ...this.credentialVault.getSecrets(accountName), ...provided });
+            if (this.credentialVault.isPersistent()) {
+                logger.info(`Stored credentials of ${accountName} in the credential vault; they can now be removed from the environment`);
+            }
+        }
+        this.envSecrets.clear();
+    }
+
+    private extractPlaintextSecrets(stored: any): { config: IMAPConfig; secrets?: AccountSecrets } {
+        const { password, ...config } = stored;
+        const { refreshToken, clientSecret, ...oauth2 } = stored.oauth2 || {};
+
+        if (stored.oauth2) {
+            config.oauth2 = oauth2;
+        }
+        if (!password && !refreshToken && !clientSecret) {
+            return { config };
+        }
+        return { config, secrets: { password, refreshToken, clientSecret } };
+    }
+
+    private parseFolderPatterns(value?: string): string[] {
+        return (value || '').split(',').map(pattern => pattern.trim()).filter(pattern => pattern);
+    }
+
     private getAvailableIMAPAccountNumbers(): number[] {
         const accountNumbers: Set<number> = new Set();
         
@@ -214,23 +780,27 @@ export class IMAPSyncManager {
             return;
         }
 
-        this.isRunning = true;
-        logger.info('Starting IMAP synchronization for all accounts...');
-
-        // Initialize Elasticsearch
+        // Without a store every fetched email would be lost, so don't sync at all
         try {
-            await this.elasticsearchService.initialize();
-            logger.info('Elasticsearch initialized successfully');
+            await this.emailStore.initialize();
         } catch (error) {
-            logger.error('Failed to initialize Elasticsearch:', error);
-            // Continue without Elasticsearch if it fails
+            throw new Error(`Email store (${this.emailStore.backend}) is unavailable: ${error instanceof Error ? error.message : String(error)}`);
         }
 
-        // Connect to all accounts and start syncing
+        this.isRunning = true;
+        logger.info('Starting IMAP synchronization for all accounts...');
+
+        await this.syncStateStore.load();
+        await this.credentialVault.load();
+        await this.importEnvSecrets();
+        await this.loadStoredAccounts();
+        logger.info(`Sync mode: ${this.syncMode}`);
+
+        // Connect to all accounts and start syncing; accounts that fail keep retrying in the background
         const connectionPromises = this.accounts.map(account => this.connectAndSync(account));
         await Promise.all(connectionPromises);
 
-        logger.info('All IMAP accounts connected and syncing');
+        logger.info(`${this.getConnectedAccountsCount()} of ${this.getTotalAccountsCount()} IMAP accounts connected and syncing`);
     }
 
     public async stop(): Promise<void> {
@@ -241,290 +811,1722 @@ export class IMAPSyncManager {
         this.isRunning = false;
         logger.info('Stopping IMAP synchronization...');
 
+        // Let running backfills finish their current batch and record where they stopped
+        await this.stopBackfill();
+
+        this.changeSyncTimers.forEach(timer => clearTimeout(timer));
+        this.changeSyncTimers.clear();
+
         // Disconnect all accounts
         const disconnectionPromises = this.accounts.map(account => this.disconnectAccount(account));
         await Promise.all(disconnectionPromises);
+        await this.syncStateStore.flush();
+        await this.emailStore.close();
 
         logger.info('IMAP synchronization stopped');
     }
 
+    /**
+     * Connect an account and run its initial sync. Failures are not propagated: the
+     * account moves to backoff (or auth-failed) and reconnects on its own.
+     */
     private async connectAndSync(account: IMAPAccount): Promise<void> {
-        try {
-            logger.info(`Connecting to IMAP account: ${account.config.accountName}`);
-
-            const imap = new Imap({
-                user: account.config.user,
-                password: account.config.password,
-                host: account.config.host,
-                port: account.config.port,
-                tls: account.config.tls,
-                tlsOptions: account.config.tlsOptions,
-                keepalive: true
-            });
-
-            account.connection = imap;
-
-            return new Promise((resolve, reject) => {
-                imap.once('ready', async () => {
-                    try {
-                        account.isConnected = true;
-                        logger.info(`Connected to ${account.config.accountName}`);
+        if (account.config.disabled) {
+            this.setAccountState(account, 'disabled');
+            return;
+        }
 
-                        // Start syncing only the last 10 emails
-                        await this.syncRecentEmails(account);
+        this.clearReconnectTimer(account);
+        this.setAccountState(account, 'connecting');
+        const attempt = ++account.connectionAttempt;
 
-                        // Set up IDLE mode for real-time updates
-                        await this.setupIdleMode(account);
+        try {
+            logger.info(`Connecting to IMAP account: ${account.config.accountName}`);
+            await this.openConnection(account, attempt);
+            logger.info(`Connected to ${account.config.accountName}`);
+            await this.setupGmailMode(account);
 
-                        resolve();
-                    } catch (error) {
-                        reject(error);
-                    }
-                });
+            // Initial sync also catches up on anything missed while disconnected,
+            // since known folders resume from their stored highest UID
+            this.setAccountState(account, 'syncing');
 
-                imap.once('error', (error: Error) => {
-                    logger.error(`IMAP error for ${account.config.accountName}:`, error);
-                    account.isConnected = false;
-                    reject(error);
-                });
+            if (this.syncMode === 'backfill') {
+                // Walk the full mailbox history in the background so IDLE is not held up
+                this.runBackfill(account);
+            } else {
+                // Start syncing only the last 10 emails
+                await this.syncRecentEmails(account);
+            }
 
-                imap.once('end', () => {
-                    logger.info(`IMAP connection ended for ${account.config.accountName}`);
-                    account.isConnected = false;
-                });
+            // Watch for new mail through IDLE, polling or both
+            await this.setupUpdateMode(account);
 
-                imap.connect();
-            });
+            if (attempt !== account.connectionAttempt) {
+                // Stopped or removed during the initial sync; disconnectAccount closed the connection
+                return;
+            }
+            account.reconnectAttempts = 0;
+            account.lastError = undefined;
+            this.oauth2Retried.delete(account.config.accountName);
+            this.setAccountState(account, 'idle');
 
         } catch (error) {
-            logger.error(`Failed to connect to ${account.config.accountName}:`, error);
-            throw error;
+            // A superseded attempt fails because its connection was closed on purpose
+            if (attempt === account.connectionAttempt) {
+                this.handleConnectionFailure(account, error);
+            }
         }
     }
 
-    private async syncRecentEmails(account: IMAPAccount): Promise<void> {
-        const imap = account.connection;
+    /**
+     * Open a connection for a connection attempt. Rejects when the account is stopped, removed
+     * or reconnected before the connection is ready, and closes the connection in that case.
+     */
+    private async openConnection(account: IMAPAccount, attempt: number): Promise<void> {
+        const accountName = account.config.accountName;
+        const superseded = () => new Error(`Connection attempt for ${accountName} was abandoned`);
+
+        const options = await this.buildConnectionOptions(account.config);
+        if (attempt !== account.connectionAttempt) {
+            throw superseded();
+        }
+        const imap = new Imap({
+            ...options,
+            // Without IDLE (or with forceNoop) node-imap sends NOOP on this interval, and the
+            // server answers with any new or expunged messages in the selected folder
+            keepalive: {
+                interval: this.noopIntervalMs,
+                forceNoop: account.config.updateMode === 'poll'
+            }
+        });
+
+        account.connection = imap;
+
+        // Rejects once this connection closes, so mailbox operations waiting on it fail fast
+        const closed = new Promise<never>((_, reject) => {
+            imap.once('close', () => reject(new Error(`IMAP connection closed for ${accountName}`)));
+        });
+        closed.catch(() => undefined);
+        this.connectionClosed.set(accountName, closed);
 
         return new Promise((resolve, reject) => {
-            imap.openBox('INBOX', false, (error: Error, box: any) => {
-                if (error) {
-                    logger.error(`Failed to open INBOX for ${account.config.accountName}:`, error);
-                    reject(error);
+            let isReady = false;
+
+            imap.once('ready', () => {
+                if (attempt !== account.connectionAttempt) {
+                    imap.end();
+                    reject(superseded());
                     return;
                 }
+                isReady = true;
+                account.isConnected = true;
+                resolve();
+            });
 
-                logger.info(`Syncing last 10 emails for ${account.config.accountName}`);
+            imap.on('error', (error: Error) => {
+                logger.error(`IMAP error for ${accountName}:`, error);
+                account.lastError = error.message;
+                if (!isReady) {
+                    reject(error);
+                }
+            });
 
-                // Get the total number of messages in the mailbox
-                const totalMessages = box.messages.total;
-                
-                if (totalMessages === 0) {
-                    logger.info(`No emails found for ${account.config.accountName}`);
-                    resolve();
-                    return;
+            imap.once('close', () => {
+                logger.info(`IMAP connection closed for ${accountName}`);
+                if (!isReady) {
+                    reject(new Error(`IMAP connection closed before it was ready for ${accountName}`));
                 }
+                this.handleConnectionClosed(account, imap);
+            });
 
-                // Calculate the range for the last 10 emails
-                const startSeq = Math.max(1, totalMessages - 9); // Get last 10 emails
-                const endSeq = totalMessages;
-                
-                logger.info(`Found ${totalMessages} total emails. Fetching emails ${startSeq} to ${endSeq} for ${account.config.accountName}`);
+            imap.connect();
+        });
+    }
 
-                // Fetch the last 10 emails by sequence number
-                const fetch = imap.seq.fetch(`${startSeq}:${endSeq}`, {
-                    bodies: '',
-                    struct: true,
-                    envelope: true
-                });
+    /**
+     * node-imap connection settings for an account, with a current XOAUTH2 token for OAuth2 accounts
+     */
+    private async buildConnectionOptions(config: IMAPConfig, secrets?: AccountSecrets, forceTokenRefresh: boolean = false): Promise<any> {
+        // Stored secrets are decrypted only for the moment the connection is opened
+        const credentials = secrets || this.credentialVault.getSecrets(config.accountName);
+        if (!credentials) {
+            throw new AuthenticationError(`No credentials stored for ${config.accountName}`);
+        }
 
-                const uids: number[] = [];
-                
-                fetch.on('message', (msg: any, seqno: number) => {
-                    msg.once('attributes', (attrs: any) => {
-                        uids.push(attrs.uid);
-                    });
-                });
+        const options: any = {
+            user: config.user,
+            host: config.host,
+            port: config.port,
+            tls: config.tls,
+            tlsOptions: config.tlsOptions
+        };
 
-                fetch.once('error', (error: Error) => {
-                    logger.error(`Failed to fetch recent emails for ${account.config.accountName}:`, error);
-                    reject(error);
-                });
+        if (config.authMethod === 'oauth2') {
+            options.xoauth2 = await this.tokenProvider.getXOAuth2Token(config, credentials, forceTokenRefresh);
+        } else {
+            options.password = credentials.password;
+        }
 
-                fetch.once('end', () => {
-                    if (uids.length > 0) {
-                        logger.info(`Found ${uids.length} recent emails to process for ${account.config.accountName}`);
-                        
-                        // Set the initial last processed UID to the highest UID from this batch
-                        const accountKey = `${account.config.accountName}-INBOX`;
-                        const maxUID = Math.max(...uids);
-                        this.lastProcessedUID.set(accountKey, maxUID);
-                        logger.info(`Set initial last processed UID to ${maxUID} for ${account.config.accountName}`);
-                        
-                        // Process emails using the collected UIDs
-                        this.fetchAndProcessEmails(account, uids, 'INBOX')
-                            .then(() => resolve())
-                            .catch(reject);
-                    } else {
-                        logger.info(`No recent emails to process for ${account.config.accountName}`);
-                        resolve();
-                    }
-                });
-            });
-        });
+        return options;
     }
 
-    private async fetchAndProcessEmails(account: IMAPAccount, uids: number[], folder: string): Promise<void> {
-        const imap = account.connection;
+    private handleConnectionClosed(account: IMAPAccount, imap: any): void {
+        // Ignore stale connections that were already replaced by a reconnect
+        if (account.connection !== imap) {
+            return;
+        }
 
-        return new Promise((resolve, reject) => {
-            const fetch = imap.fetch(uids, {
-                bodies: '',
-                struct: true,
-                envelope: true
-            });
+        const accountName = account.config.accountName;
+        account.isConnected = false;
+        this.mailboxLocks.delete(accountName);
+        this.pendingMailboxOps.delete(accountName);
+        this.selectedFolders.delete(accountName);
+        this.openingFolders.delete(accountName);
+        this.folderStatuses.delete(accountName);
+        this.missedIdleSweeps.delete(accountName);
+        account.updateMode = undefined;
+        account.gmailAllMail = undefined;
+
+        // Failures during connecting are handled by connectAndSync itself
+        if (!this.isRunning || ['connecting', 'backoff', 'auth-failed', 'disabled'].includes(account.state)) {
+            return;
+        }
 
-            fetch.on('message', (msg: any, seqno: number) => {
-                let buffer = '';
-                let attributes: any;
+        this.scheduleReconnect(account);
+    }
 
-                msg.on('body', (stream: any) => {
-                    stream.on('data', (chunk: any) => {
-                        buffer += chunk.toString('utf8');
-                    });
-                });
+    private handleConnectionFailure(account: IMAPAccount, error: any): void {
+        const accountName = account.config.accountName;
+        account.isConnected = false;
+        account.lastError = error instanceof Error ? error.message : String(error);
 
-                msg.once('attributes', (attrs: any) => {
-                    attributes = attrs;
-                });
+        if (!this.isRunning || account.state === 'disabled') {
+            return;
+        }
 
-                msg.once('end', async () => {
-                    try {
-                        const parsed = await simpleParser(buffer);
-                        
-                        const getEmailText = (addr: any): string => {
-                            if (!addr) return '';
-                            if (Array.isArray(addr)) {
-                                return addr.map(a => a.text || a.address || '').join(', ');
-                            }
-                            return addr.text || addr.address || '';
-                        };
-
-                        const email: EmailMessage = {
-                            uid: attributes.uid,
-                            messageId: parsed.messageId || '',
-                            subject: parsed.subject || '',
-                            from: getEmailText(parsed.from),
-                            to: getEmailText(parsed.to),
-                            date: parsed.date || new Date(),
-                            body: parsed.text || parsed.html || '',
-                            folder: folder,
-                            accountName: account.config.accountName,
-                            flags: attributes.flags || []
-                        };
+        // The server may reject an access token before its advertised expiry; retry once with a fresh one.
+        // A rejection from the token endpoint itself means the refresh token is no longer valid.
+        if (this.isAuthenticationError(error) && account.config.authMethod === 'oauth2'
+            && !(error instanceof AuthenticationError) && !this.oauth2Retried.has(accountName)) {
+            logger.warn(`OAuth2 login rejected for ${accountName}, retrying with a refreshed access token`);
+            this.oauth2Retried.add(accountName);
+            this.tokenProvider.invalidate(accountName);
+            this.endConnection(account);
+            this.scheduleReconnect(account);
+            return;
+        }
 
-                        await this.processEmail(email);
+        if (this.isAuthenticationError(error)) {
+            // Retrying with the same credentials would only get the account locked out
+            logger.error(`Authentication failed for ${accountName}, not retrying: ${account.lastError}`);
+            this.clearReconnectTimer(account);
+            this.setAccountState(account, 'auth-failed');
+            this.endConnection(account);
+            return;
+        }
 
-                    } catch (error) {
-                        logger.error(`Failed to parse email for ${account.config.accountName}:`, error);
-                    }
-                });
-            });
+        logger.error(`Failed to connect to ${accountName}: ${account.lastError}`);
+        this.endConnection(account);
+        this.scheduleReconnect(account);
+    }
 
-            fetch.once('error', (error: Error) => {
-                logger.error(`Failed to fetch emails for ${account.config.accountName}:`, error);
-                reject(error);
-            });
+    /**
+     * Exponential backoff with equal jitter: half of the delay is fixed, half random,
+     * so accounts that dropped together do not reconnect in lockstep
+     */
+    private scheduleReconnect(account: IMAPAccount): void {
+        if (account.reconnectTimer) {
+            return;
+        }
 
-            fetch.once('end', () => {
-                logger.info(`Finished fetching emails for ${account.config.accountName}`);
+        const attempt = account.reconnectAttempts++;
+        const ceiling = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * Math.pow(2, attempt));
+        const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+
+        account.nextRetryAt = new Date(Date.now() + delay);
+        this.setAccountState(account, 'backoff');
+        logger.info(`Reconnecting ${account.config.accountName} in ${delay}ms (attempt ${attempt + 1})`);
+
+        account.reconnectTimer = setTimeout(() => {
+            account.reconnectTimer = undefined;
+            account.nextRetryAt = undefined;
+            this.connectAndSync(account);
+        }, delay);
+    }
+
+    private clearReconnectTimer(account: IMAPAccount): void {
+        if (account.reconnectTimer) {
+            clearTimeout(account.reconnectTimer);
+            account.reconnectTimer = undefined;
+        }
+        account.nextRetryAt = undefined;
+    }
+
+    private isAuthenticationError(error: any): boolean {
+        if (!error) {
+            return false;
+        }
+        const textCode = typeof error.textCode === 'string' ? error.textCode : error.textCode?.key;
+        return error.source === 'authentication'
+            || /^(AUTHENTICATIONFAILED|AUTHORIZATIONFAILED)$/i.test(textCode || '');
+    }
+
+    private setAccountState(account: IMAPAccount, state: AccountConnectionState): void {
+        if (account.state === state) {
+            return;
+        }
+        logger.info(`Account ${account.config.accountName}: ${account.state} -> ${state}`);
+        const previous = account.state;
+        account.state = state;
+        this.events.emit('account.stateChanged', { accountName: account.config.accountName, previous, state });
+    }
+
+    private endConnection(account: IMAPAccount): void {
+        try {
+            account.connection?.end();
+        } catch (error) {
+            logger.debug(`Failed to end connection for ${account.config.accountName}: ${error}`);
+        }
+    }
+
+    private async syncRecentEmails(account: IMAPAccount): Promise<void> {
+        const folders = await this.getSyncFolders(account);
+        logger.info(`Syncing last 10 emails in ${folders.length} folder(s) for ${account.config.accountName}`);
+
+        for (const folder of folders) {
+            try {
+                await this.syncRecentFolder(account, folder);
+            } catch (error) {
+                // One broken folder should not stop the others from syncing
+                logger.error(`Failed to sync ${folder} for ${account.config.accountName}:`, error);
+            }
+        }
+    }
+
+    private async syncRecentFolder(account: IMAPAccount, folder: string): Promise<void> {
+        const imap = account.connection;
+
+        if (this.syncStateStore.getHighestUID(account.config.accountName, folder) > 0) {
+            // Known folder: catch up on everything that arrived since the last run
+            await this.handleNewMail(account, folder);
+            return;
+        }
+
+        await this.withMailbox(account, folder, (box) => new Promise<void>((resolve, reject) => {
+            // Get the total number of messages in the mailbox
+            const totalMessages = box.messages.total;
+
+            if (totalMessages === 0) {
+                logger.info(`No emails found in ${folder} for ${account.config.accountName}`);
                 resolve();
+                return;
+            }
+
+            // Calculate the range for the last 10 emails
+            const startSeq = Math.max(1, totalMessages - 9); // Get last 10 emails
+            const endSeq = totalMessages;
+
+            logger.info(`Found ${totalMessages} total emails in ${folder}. Fetching emails ${startSeq} to ${endSeq} for ${account.config.accountName}`);
+
+            // Only the UIDs of the last 10 emails are needed here; their content is fetched below
+            const fetch = imap.seq.fetch(`${startSeq}:${endSeq}`, {});
+
+            const uids: number[] = [];
+
+            fetch.on('message', (msg: any, seqno: number) => {
+                msg.once('attributes', (attrs: any) => {
+                    uids.push(attrs.uid);
+                });
+            });
+
+            fetch.once('error', (error: Error) => {
+                logger.error(`Failed to fetch recent emails in ${folder} for ${account.config.accountName}:`, error);
+                reject(error);
+            });
+
+            fetch.once('end', () => {
+                if (uids.length > 0) {
+                    logger.info(`Found ${uids.length} recent emails to process in ${folder} for ${account.config.accountName}`);
+
+                    // Process emails using the collected UIDs; this also sets the last processed UID
+                    this.fetchAndProcessEmails(account, uids, folder)
+                        .then(() => resolve())
+                        .catch(reject);
+                } else {
+                    logger.info(`No recent emails to process in ${folder} for ${account.config.accountName}`);
+                    resolve();
+                }
+            });
+        }));
+    }
+
+    /**
+     * Start (or resume) the full-history backfill for one or all connected accounts
+     */
+    public startBackfill(accountName?: string): string[] {
+        const targetAccounts = accountName
+            ? this.accounts.filter(acc => acc.config.accountName === accountName)
+            : this.accounts;
+
+        const started: string[] = [];
+        for (const account of targetAccounts) {
+            if (!account.isConnected) {
+                logger.warn(`Cannot start backfill for ${account.config.accountName}: account is not connected`);
+                continue;
+            }
+            if (this.runBackfill(account)) {
+                started.push(account.config.accountName);
+            }
+        }
+
+        return started;
+    }
+
+    /**
+     * Ask running backfills to stop after their current batch and wait for them
+     */
+    public async stopBackfill(accountName?: string): Promise<string[]> {
+        const stopping = Array.from(this.activeBackfills.keys())
+            .filter(name => !accountName || name === accountName);
+
+        stopping.forEach(name => this.backfillStopRequests.add(name));
+        await Promise.all(stopping.map(name => this.activeBackfills.get(name)));
+
+        return stopping;
+    }
+
+    public getBackfillProgress(): (BackfillProgress & { active: boolean })[] {
+        return this.syncStateStore.getAllBackfillProgress().map(progress => ({
+            ...progress,
+            active: this.activeBackfills.has(progress.accountName)
+        }));
+    }
+
+    private runBackfill(account: IMAPAccount): boolean {
+        const accountName = account.config.accountName;
+        if (this.activeBackfills.has(accountName)) {
+            logger.info(`Backfill already running for ${accountName}`);
+            return false;
+        }
+
+        this.backfillStopRequests.delete(accountName);
+        const run = this.backfillAccount(account)
+            .catch((error) => {
+                logger.error(`Backfill failed for ${accountName}:`, error);
+            })
+            .finally(() => {
+                this.activeBackfills.delete(accountName);
+                this.backfillStopRequests.delete(accountName);
+            });
+
+        this.activeBackfills.set(accountName, run);
+        return true;
+    }
+
+    private async backfillAccount(account: IMAPAccount): Promise<void> {
+        const accountName = account.config.accountName;
+        const folders = await this.getSyncFolders(account);
+
+        for (const folder of folders) {
+            if (this.backfillStopRequests.has(accountName) || !this.isRunning || !account.isConnected) {
+                return;
+            }
+            await this.backfillFolder(account, folder);
+        }
+    }
+
+    /**
+     * Walk a folder newest-to-oldest in UID batches, persisting a cursor after each batch
+     * so an interrupted backfill resumes below the last processed UID. A batch with mail
+     * that failed to index ends the run as failed, with the cursor kept above the newest
+     * failed UID so a resumed backfill fetches that mail again.
+     */
+    private async backfillFolder(account: IMAPAccount, folder: string): Promise<void> {
+        const accountName = account.config.accountName;
+
+        const allUIDs = (await this.withMailbox(account, folder, () => this.searchUIDs(account, ['ALL'])))
+            .sort((a, b) => b - a);
+
+        let progress = this.syncStateStore.getBackfillProgress(accountName, folder);
+        if (!progress) {
+            progress = {
+                accountName,
+                folder,
+                status: 'pending',
+                totalMessages: 0,
+                processedMessages: 0,
+                newestUID: allUIDs[0] || 0,
+                oldestProcessedUID: 0,
+                startedAt: new Date().toISOString()
+            };
+        }
+        const anchorUID = progress.newestUID;
+
+        try {
+            // Mail that arrived above the anchor (e.g. while we were offline) is picked up first
+            const newerUIDs = allUIDs.filter(uid => uid > anchorUID);
+            if (newerUIDs.length > 0) {
+                logger.info(`Catching up on ${newerUIDs.length} email(s) newer than UID ${anchorUID} in ${accountName}/${folder}`);
+                await this.withMailbox(account, folder, () => this.fetchAndProcessEmails(account, newerUIDs, folder));
+            }
+
+            if (progress.status === 'completed') {
+                logger.info(`Backfill already completed for ${accountName}/${folder}`);
+                return;
+            }
+
+            const historyUIDs = allUIDs.filter(uid => uid <= anchorUID);
+            const cursor = progress.oldestProcessedUID;
+            const remainingUIDs = historyUIDs.filter(uid => cursor === 0 || uid < cursor);
+
+            progress.totalMessages = historyUIDs.length;
+            progress.processedMessages = historyUIDs.length - remainingUIDs.length;
+            progress.status = 'running';
+            progress.error = undefined;
+            await this.syncStateStore.saveBackfillProgress(progress);
+
+            logger.info(`Backfilling ${remainingUIDs.length} of ${historyUIDs.length} email(s) in ${accountName}/${folder} (batch size ${this.backfillBatchSize})`);
+
+            for (let i = 0; i < remainingUIDs.length; i += this.backfillBatchSize) {
+                if (this.backfillStopRequests.has(accountName) || !this.isRunning || !account.isConnected) {
+                    progress.status = 'paused';
+                    await this.syncStateStore.saveBackfillProgress(progress);
+                    logger.info(`Backfill paused for ${accountName}/${folder} at UID ${progress.oldestProcessedUID}`);
+                    return;
+                }
+
+                // Lock per batch rather than per folder so new mail handling can interleave
+                const batch = remainingUIDs.slice(i, i + this.backfillBatchSize);
+                const failedUIDs = await this.withMailbox(account, folder, () => this.fetchAndProcessEmails(account, batch, folder, true));
+
+                const newestFailedUID = failedUIDs.length > 0 ? Math.max(...failedUIDs) : 0;
+                const done = batch.filter(uid => uid > newestFailedUID);
+                if (done.length > 0) {
+                    progress.oldestProcessedUID = done[done.length - 1];
+                    progress.processedMessages += done.length;
+                }
+
+                if (failedUIDs.length > 0) {
+                    progress.status = 'failed';
+                    progress.error = `${failedUIDs.length} email(s) failed to index, the newest at UID ${newestFailedUID}`;
+                    await this.syncStateStore.saveBackfillProgress(progress);
+                    logger.warn(`Backfill of ${accountName}/${folder} stopped at UID ${newestFailedUID}: ${progress.error}`);
+                    return;
+                }
+                await this.syncStateStore.saveBackfillProgress(progress);
+
+                logger.info(`Backfill progress for ${accountName}/${folder}: ${progress.processedMessages}/${progress.totalMessages}`);
+            }
+
+            progress.status = 'completed';
+            progress.completedAt = new Date().toISOString();
+            await this.syncStateStore.saveBackfillProgress(progress);
+            logger.info(`Backfill completed for ${accountName}/${folder}`);
+
+        } catch (error) {
+            // A dropped connection just pauses the backfill; it resumes after the reconnect
+            progress.status = account.isConnected ? 'failed' : 'paused';
+            progress.error = error instanceof Error ? error.message : String(error);
+            await this.syncStateStore.saveBackfillProgress(progress);
+            throw error;
+        }
+    }
+
+    /**
+     * Compare the folder's UIDVALIDITY with the stored one. A change means every UID we
+     * know for the folder is meaningless, so its documents are dropped and it is synced again.
+     */
+    private async checkUidValidity(account: IMAPAccount, folder: string, box: any): Promise<void> {
+        const accountName = account.config.accountName;
+        const uidValidity = Number(box.uidvalidity) || 0;
+        const state = this.syncStateStore.getFolderState(accountName, folder);
+
+        if (!state || !state.uidValidity) {
+            this.syncStateStore.updateFolderState(accountName, folder, { uidValidity });
+            return;
+        }
+
+        if (state.uidValidity === uidValidity) {
+            return;
+        }
+
+        logger.warn(`UIDVALIDITY of ${accountName}/${folder} changed from ${state.uidValidity} to ${uidValidity}, re-syncing folder`);
+        await this.emailStore.deleteEmailsByFolder(accountName, folder);
+        this.events.emit('email.deleted', { accountName, folder });
+        await this.syncStateStore.resetFolder(accountName, folder, uidValidity);
+
+        // Queue the re-sync behind the mailbox operation that is currently running
+        setImmediate(() => {
+            const resync = this.syncMode === 'backfill'
+                ? this.backfillFolder(account, folder)
+                : this.syncRecentFolder(account, folder);
+            resync.catch((error) => {
+                logger.error(`Failed to re-sync ${accountName}/${folder} after UIDVALIDITY change:`, error);
+            });
+        });
+    }
+
+    private openBox(account: IMAPAccount, folder: string, readOnly: boolean = false): Promise<any> {
+        const accountName = account.config.accountName;
+        return new Promise((resolve, reject) => {
+            this.openingFolders.add(accountName);
+            account.connection.openBox(folder, readOnly, (error: Error, box: any) => {
+                this.openingFolders.delete(accountName);
+                if (error) {
+                    logger.error(`Failed to open ${folder} for ${account.config.accountName}:`, error);
+                    reject(error);
+                    return;
+                }
+                resolve(box);
+            });
+        });
+    }
+
+    private searchUIDs(account: IMAPAccount, criteria: any[]): Promise<number[]> {
+        return new Promise((resolve, reject) => {
+            account.connection.search(criteria, (error: Error, results: number[]) => {
+                if (error) {
+                    logger.error(`Failed to search mailbox for ${account.config.accountName}:`, error);
+                    reject(error);
+                    return;
+                }
+                resolve(results || []);
+            });
+        });
+    }
+
+    /**
+     * Fetch messages in batches and run them through the processing queue. The next batch
+     * is fetched only once the current one is processed, so memory stays bounded however
+     * many UIDs are given, and the promise resolves only after every message is indexed.
+     *
+     * The folder's highest processed UID is raised once a batch completes, and only up to
+     * the first message that failed, so that message is fetched again by the next new-mail
+     * check instead of being skipped for good. `historic` marks backfilled mail in the
+     * pipeline events, so it is not announced as new. Resolves with the UIDs of the
+     * messages that failed to parse or index.
+     */
+    private async fetchAndProcessEmails(account: IMAPAccount, uids: number[], folder: string, historic: boolean = false): Promise<number[]> {
+        const accountName = account.config.accountName;
+        const failedUIDs: number[] = [];
+        let failedUID: number | null = null;
+
+        for (let i = 0; i < uids.length; i += this.fetchBatchSize) {
+            const batch = uids.slice(i, i + this.fetchBatchSize);
+            const messages = await this.fetchRawMessages(account, batch);
+
+            const stored = await Promise.all(messages.map(message => this.processingQueue.run(async () => {
+                try {
+                    return await this.processEmail(await this.parseEmail(account, folder, message), historic);
+                } catch (error) {
+                    logger.error(`Failed to parse email ${message.uid} in ${folder} for ${accountName}:`, error);
+                    return false;
+                }
+            })));
+
+            // UIDs the server did not return were expunged meanwhile and count as done
+            const failed = messages.filter((message, index) => !stored[index]).map(message => message.uid);
+            if (failed.length > 0) {
+                failedUIDs.push(...failed);
+                failedUID = Math.min(failedUID ?? Infinity, ...failed);
+            }
+            const done = batch.filter(uid => failedUID === null || uid < failedUID);
+            if (done.length > 0) {
+                this.syncStateStore.recordUID(accountName, folder, Math.max(...done));
+            }
+        }
+
+        logger.info(`Finished fetching and processing ${uids.length} email(s) in ${folder} for ${account.config.accountName}`);
+        return failedUIDs;
+    }
+
+    /**
+     * Download messages as raw bytes. Bytes beyond maxMessageBytes are discarded, and such
+     * messages are indexed from their headers only.
+     */
+    private fetchRawMessages(account: IMAPAccount, uids: number[]): Promise<RawMessage[]> {
+        return new Promise((resolve, reject) => {
+            const messages: RawMessage[] = [];
+            const fetch = account.connection.fetch(uids, {
+                bodies: '',
+                struct: true,
+                envelope: true
             });
+
+            fetch.on('message', (msg: any) => {
+                const chunks: Buffer[] = [];
+                let size = 0;
+                let truncated = false;
+                let attributes: any;
+
+                msg.on('body', (stream: NodeJS.ReadableStream) => {
+                    stream.on('data', (chunk: Buffer) => {
+                        if (size + chunk.length > this.maxMessageBytes) {
+                            truncated = true;
+                            chunks.push(chunk.subarray(0, Math.max(0, this.maxMessageBytes - size)));
+                            size = this.maxMessageBytes;
+                            return;
+                        }
+                        chunks.push(chunk);
+                        size += chunk.length;
+                    });
+                });
+
+                msg.once('attributes', (attrs: any) => {
+                    attributes = attrs;
+                });
+
+                msg.once('end', () => {
+                    messages.push({
+                        uid: attributes?.uid,
+                        flags: attributes?.flags || [],
+                        gmailLabels: attributes?.['x-gm-labels'],
+                        gmailMessageId: attributes?.['x-gm-msgid'] && String(attributes['x-gm-msgid']),
+                        gmailThreadId: attributes?.['x-gm-thrid'] && String(attributes['x-gm-thrid']),
+                        source: Buffer.concat(chunks),
+                        truncated
+                    });
+                });
+            });
+
+            fetch.once('error', (error: Error) => {
+                logger.error(`Failed to fetch emails for ${account.config.accountName}:`, error);
+                reject(error);
+            });
+
+            fetch.once('end', () => resolve(messages));
         });
     }
 
-    private async setupIdleMode(account: IMAPAccount): Promise<void> {
+    private async parseEmail(account: IMAPAccount, folder: string, message: RawMessage): Promise<EmailMessage> {
+        let source = message.source;
+        if (message.truncated) {
+            // The header block is complete as long as it fits in the limit; the cut-off body is dropped
+            const headerEnd = source.indexOf('\r\n\r\n');
+            source = headerEnd >= 0 ? source.subarray(0, headerEnd + 4) : source;
+            logger.warn(`Email ${message.uid} in ${folder} for ${account.config.accountName} exceeds ${this.maxMessageBytes} bytes; indexing its headers only`);
+        }
+
+        // Keep cid: links so inline images can be pointed at the attachment store
+        const parsed = await simpleParser(source, { keepCidLinks: true });
+
+        const getEmailText = (addr: any): string => {
+            if (!addr) return '';
+            if (Array.isArray(addr)) {
+                return addr.map(a => a.text || a.address || '').join(', ');
+            }
+            return addr.text || addr.address || '';
+        };
+
+        const messageId = parsed.messageId || '';
+        const subject = parsed.subject || '';
+        const references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references || [];
+        const { attachments, attachmentText } = await this.storeAttachments(account, parsed.attachments);
+
+        return {
+            uid: message.uid,
+            messageId,
+            subject,
+            from: getEmailText(parsed.from),
+            to: getEmailText(parsed.to),
+            date: parsed.date || new Date(),
+            body: parsed.text || '',
+            htmlBody: parsed.html ? sanitizeEmailHtml(parsed.html, this.getInlineImageUrls(messageId, attachments)) : undefined,
+            folder: folder,
+            accountName: account.config.accountName,
+            flags: message.flags,
+            attachments,
+            attachmentText,
+            inReplyTo: parsed.inReplyTo,
+            references,
+            normalizedSubject: ThreadingService.normalizeSubject(subject),
+            labels: message.gmailLabels && this.gmailLabelsToFolders(account, message.gmailLabels),
+            gmailMessageId: message.gmailMessageId,
+            gmailThreadId: message.gmailThreadId
+        };
+    }
+
+    /**
+     * Save parsed attachments (inline images included) to the attachment store and
+     * return the metadata and extracted document text that are indexed with the email
+     */
+    private async storeAttachments(account: IMAPAccount, attachments: Attachment[] = []): Promise<{ attachments: EmailAttachment[]; attachmentText?: string }> {
+        const stored: EmailAttachment[] = [];
+        const texts: string[] = [];
+
+        for (const attachment of attachments) {
+            try {
+                const hash = await this.attachmentStore.save(attachment.content);
+                const text = await this.textExtractor.extract(attachment);
+                if (text) {
+                    texts.push(text);
+                }
+
+                stored.push({
+                    filename: attachment.filename || 'attachment',
+                    contentType: attachment.contentType || 'application/octet-stream',
+                    size: attachment.size ?? attachment.content.length,
+                    contentId: attachment.cid,
+                    hash,
+                    inline: attachment.contentDisposition === 'inline' || attachment.related === true
+                });
+            } catch (error) {
+                logger.error(`Failed to store attachment ${attachment.filename || ''} for ${account.config.accountName}:`, error);
+            }
+        }
+
+        return {
+            attachments: stored,
+            attachmentText: texts.length > 0 ? texts.join('\n\n') : undefined
+        };
+    }
+
+    /**
+     * Download URLs of a message's attachments keyed by content-id, for rewriting cid: links
+     */
+    private getInlineImageUrls(messageId: string, attachments: EmailAttachment[]): Map<string, string> {
+        const urls = new Map<string, string>();
+        if (!messageId) {
+            return urls;
+        }
+
+        for (const attachment of attachments) {
+            if (attachment.contentId) {
+                urls.set(attachment.contentId, `/api/emails/${encodeURIComponent(messageId)}/attachments/${attachment.hash}`);
+            }
+        }
+        return urls;
+    }
+
+    /**
+     * Pick how the account learns about changes. Servers that advertise IDLE push them
+     * (idle); others are polled with NOOP on INBOX and STATUS on the other folders (poll).
+     * In hybrid mode IDLE is kept and polling runs as well, for servers whose IDLE
+     * drops notifications. An account configured without a mode moves from idle to
+     * hybrid on its own when folder sweeps keep finding INBOX mail IDLE never announced.
+     */
+    private async setupUpdateMode(account: IMAPAccount): Promise<void> {
+        const imap = account.connection;
+        const accountName = account.config.accountName;
+        const supportsIdle = imap.serverSupports('IDLE');
+
+        let mode: UpdateMode = account.config.updateMode || (supportsIdle ? 'idle' : 'poll');
+        if (mode !== 'poll' && !supportsIdle) {
+            logger.warn(`${accountName} is configured for ${mode} mode but its server does not support IDLE; polling instead`);
+            mode = 'poll';
+        }
+        account.updateMode = mode;
+        logger.info(`Watching ${accountName} for new mail in ${mode} mode (server ${supportsIdle ? 'supports' : 'does not support'} IDLE)`);
+
+        // The server reports new mail for whichever folder is currently selected, pushed during IDLE or in reply to NOOP
+        imap.on('mail', (numNewMsgs: number) => {
+            // node-imap also reports the EXISTS of a SELECT as new mail when the folder holds more
+            // messages than the previous one; mail that arrived meanwhile is checked in withMailbox
+            if (this.openingFolders.has(accountName)) {
+                return;
+            }
+            const folder = this.selectedFolders.get(accountName) || this.getIdleFolder(account);
+            logger.info(`${numNewMsgs} new email(s) received in ${folder} for ${accountName}`);
+            this.handleNewMail(account, folder);
+        });
+
+        // Unsolicited FETCH (flag change) and EXPUNGE responses only carry sequence numbers,
+        // so reconcile the whole folder shortly afterwards instead of mapping them to UIDs
+        imap.on('update', (seqno: number, info: any) => {
+            const folder = this.selectedFolders.get(accountName) || this.getIdleFolder(account);
+            logger.info(`Email update received in ${folder} for ${accountName}, seqno: ${seqno}`);
+            this.scheduleFolderChangeSync(account, folder);
+        });
+
+        imap.on('expunge', (seqno: number) => {
+            const folder = this.selectedFolders.get(accountName) || this.getIdleFolder(account);
+            logger.info(`Email expunged in ${folder} for ${accountName}, seqno: ${seqno}`);
+            this.scheduleFolderChangeSync(account, folder);
+        });
+
+        // IDLE and NOOP both watch the selected folder, so park the connection on INBOX (All Mail for Gmail)
+        await this.withMailbox(account, this.getIdleFolder(account), async () => undefined);
+
+        // Folders that are not selected don't report changes; sweep them for new mail periodically
+        const sweepTimer = setInterval(() => {
+            if (account.isConnected && imap.state === 'authenticated') {
+                this.syncNewMailInAllFolders(account).catch((error) => {
+                    logger.error(`Folder sweep failed for ${accountName}:`, error);
+                });
+            }
+        }, FOLDER_SWEEP_INTERVAL_MS);
+        imap.once('close', () => clearInterval(sweepTimer));
+
+        if (mode !== 'idle') {
+            this.startStatusPolling(account);
+        }
+    }
+
+    /**
+     * Poll the account's folders with STATUS, which is much cheaper than the full sweep
+     */
+    private startStatusPolling(account: IMAPAccount): void {
+        const imap = account.connection;
+        let polling = false;
+
+        const pollTimer = setInterval(() => {
+            if (polling || !account.isConnected || imap.state !== 'authenticated') {
+                return;
+            }
+            polling = true;
+            this.pollFolders(account)
+                .catch((error) => {
+                    logger.error(`Polling failed for ${account.config.accountName}:`, error);
+                })
+                .finally(() => {
+                    polling = false;
+                });
+        }, this.statusPollIntervalMs);
+        imap.once('close', () => clearInterval(pollTimer));
+    }
+
+    /**
+     * Compare each folder's STATUS with the previous poll and sync only the folders that changed.
+     * INBOX stays selected, and a selected folder can't be asked for its STATUS, so in hybrid
+     * mode it is checked with a UID SEARCH instead; in poll mode NOOP already covers it.
+     */
+    private async pollFolders(account: IMAPAccount): Promise<void> {
+        const accountName = account.config.accountName;
+        const folders = await this.getSyncFolders(account, true);
+        const previous = this.folderStatuses.get(accountName) || new Map<string, string>();
+        const idleFolder = this.getIdleFolder(account);
+
+        const statuses = await this.withMailbox(account, idleFolder, async () => {
+            const current = new Map<string, any>();
+            for (const folder of folders) {
+                if (folder === idleFolder) {
+                    continue;
+                }
+                try {
+                    current.set(folder, await this.getFolderStatus(account, folder));
+                } catch (error) {
+                    logger.warn(`STATUS failed for ${folder} of ${accountName}: ${error}`);
+                }
+            }
+            return current;
+        });
+
+        const snapshots = new Map<string, string>();
+        for (const [folder, status] of statuses) {
+            const newMail = `${status.uidvalidity}/${status.uidnext}`;
+            const snapshot = `${newMail}/${status.messages.total}/${status.messages.unseen}/${status.highestmodseq || ''}`;
+            snapshots.set(folder, snapshot);
+
+            const last = previous.get(folder);
+            if (last === snapshot) {
+                continue;
+            }
+
+            logger.debug(`STATUS changed for ${accountName}/${folder}: ${last || 'none'} -> ${snapshot}`);
+            if (!last || !last.startsWith(`${newMail}/`)) {
+                await this.handleNewMail(account, folder);
+            }
+            if (last) {
+                await this.syncFolderChanges(account, folder);
+            }
+        }
+        this.folderStatuses.set(accountName, snapshots);
+
+        if (account.updateMode === 'hybrid' && folders.includes(idleFolder)) {
+            const missed = await this.handleNewMail(account, idleFolder);
+            if (missed > 0) {
+                logger.warn(`Polling found ${missed} email(s) in ${idleFolder} of ${accountName} that IDLE did not announce`);
+            }
+        }
+    }
+
+    private getFolderStatus(account: IMAPAccount, folder: string): Promise<any> {
+        return new Promise((resolve, reject) => {
+            account.connection.status(folder, (error: Error, box: any) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+                resolve(box);
+            });
+        });
+    }
+
+    /**
+     * Index mail above the folder's highest synced UID; resolves to the number of new emails
+     */
+    private async handleNewMail(account: IMAPAccount, folder: string): Promise<number> {
+        try {
+            return await this.withMailbox(account, folder, async (box) => {
+                const totalMessages = box.messages.total;
+                const lastProcessedUID = this.syncStateStore.getHighestUID(account.config.accountName, folder);
+
+                if (totalMessages === 0) {
+                    logger.info(`No emails in ${folder} for ${account.config.accountName}`);
+                    return 0;
+                }
+
+                // Search for emails with UID greater than last processed
+                const searchCriteria = lastProcessedUID > 0
+                    ? [['UID', `${lastProcessedUID + 1}:*`]]
+                    : [['UID', '*']]; // If no last UID, get only the latest
+
+                // "n:*" always matches the highest UID, even when it is below n
+                const results = (await this.searchUIDs(account, searchCriteria))
+                    .filter(uid => uid > lastProcessedUID);
+
+                if (results.length > 0) {
+                    logger.info(`Processing ${results.length} new email(s) with UIDs > ${lastProcessedUID} in ${folder} for ${account.config.accountName}`);
+                    await this.fetchAndProcessEmails(account, results, folder);
+                } else {
+                    logger.debug(`No new emails found in ${folder} for ${account.config.accountName}`);
+                }
+                return results.length;
+            });
+
+        } catch (error) {
+            logger.error(`Failed to handle new mail in ${folder} for ${account.config.accountName}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Check every synced folder for mail that arrived since the last processed UID,
+     * and for flag changes and deletions of mail that is already indexed
+     */
+    private async syncNewMailInAllFolders(account: IMAPAccount): Promise<void> {
+        const folders = await this.getSyncFolders(account, true);
+        for (const folder of folders) {
+            if (!account.isConnected) {
+                return;
+            }
+            const found = await this.handleNewMail(account, folder);
+            if (folder === this.getIdleFolder(account) && account.updateMode === 'idle') {
+                this.recordIdleSweep(account, found);
+            }
+            await this.syncFolderChanges(account, folder);
+        }
+    }
+
+    /**
+     * Mail found in INBOX by a sweep should already have been announced through IDLE.
+     * When that keeps happening, keep IDLE but back it with polling.
+     */
+    private recordIdleSweep(account: IMAPAccount, found: number): void {
+        const accountName = account.config.accountName;
+        const missed = found > 0 ? (this.missedIdleSweeps.get(accountName) || 0) + 1 : 0;
+        this.missedIdleSweeps.set(accountName, missed);
+
+        if (missed >= MAX_MISSED_IDLE_SWEEPS && !account.config.updateMode) {
+            logger.warn(`IDLE on ${accountName} missed new mail in ${missed} sweeps in a row; switching to hybrid mode`);
+            account.updateMode = 'hybrid';
+            this.startStatusPolling(account);
+        }
+    }
+
+    private scheduleFolderChangeSync(account: IMAPAccount, folder: string): void {
+        const key = `${account.config.accountName}-${folder}`;
+        if (this.changeSyncTimers.has(key)) {
+            return;
+        }
+
+        // Servers send one response per message, so batch a burst of them into one reconcile
+        this.changeSyncTimers.set(key, setTimeout(() => {
+            this.changeSyncTimers.delete(key);
+            if (account.isConnected) {
+                this.syncFolderChanges(account, folder);
+            }
+        }, CHANGE_SYNC_DELAY_MS));
+    }
+
+    /**
+     * Bring the indexed flags and deletions of a folder in line with the server.
+     * Flag changes come from CONDSTORE (CHANGEDSINCE the stored MODSEQ) when the server
+     * supports it, otherwise from comparing every message's flags. Expunges are found by
+     * diffing the server's UID set against the index; with QRESYNC an unchanged
+     * HIGHESTMODSEQ guarantees nothing was expunged, so the diff is skipped.
+     */
+    private async syncFolderChanges(account: IMAPAccount, folder: string): Promise<void> {
+        const accountName = account.config.accountName;
         const imap = account.connection;
 
-        logger.info(`Setting up IDLE mode for ${account.config.accountName}`);
+        try {
+            await this.withMailbox(account, folder, async (box) => {
+                const knownModSeq = this.syncStateStore.getFolderState(accountName, folder)?.highestModSeq;
+                const supportsCondstore = imap.serverSupports('CONDSTORE') && !box.nomodseq && !!box.highestmodseq;
+                const modSeqUnchanged = supportsCondstore && knownModSeq === box.highestmodseq;
 
-        // Listen for new mail events
-        imap.on('mail', (numNewMsgs: number) => {
-            logger.info(`${numNewMsgs} new email(s) received for ${account.config.accountName}`);
-            this.handleNewMail(account);
+                if (modSeqUnchanged && imap.serverSupports('QRESYNC')) {
+                    logger.debug(`No changes in ${accountName}/${folder} since MODSEQ ${knownModSeq}`);
+                    return;
+                }
+
+                const indexedFlags = await this.emailStore.getIndexedFlags(accountName, folder);
+
+                if (indexedFlags.size > 0) {
+                    if (!modSeqUnchanged && box.messages.total > 0) {
+                        const changedSince = supportsCondstore ? knownModSeq : undefined;
+                        const serverFlags = await this.fetchFlags(account, changedSince);
+                        // Label changes are not visible in the indexed flags, but CHANGEDSINCE only returns changed messages
+                        const withLabels = folder === account.gmailAllMail && !!changedSince;
+                        const updates = serverFlags
+                            .filter(({ uid, flags }) => indexedFlags.has(uid)
+                                && (withLabels || !this.sameFlags(indexedFlags.get(uid) || [], flags)))
+                            .map(({ uid, flags, labels }) => ({
+                                uid,
+                                flags,
+                                labels: folder === account.gmailAllMail && labels ? this.gmailLabelsToFolders(account, labels) : undefined
+                            }));
+
+                        if (updates.length > 0) {
+                            logger.info(`Propagating flag changes for ${updates.length} email(s) in ${accountName}/${folder}`);
+                            await this.emailStore.updateEmailFlags(accountName, folder, updates);
+                            this.events.emit('email.flagsChanged', { accountName, folder, changes: updates });
+                        }
+                    }
+
+                    const serverUIDs = new Set(box.messages.total > 0 ? await this.searchUIDs(account, ['ALL']) : []);
+                    const expungedUIDs = Array.from(indexedFlags.keys()).filter(uid => !serverUIDs.has(uid));
+
+                    if (expungedUIDs.length > 0) {
+                        logger.info(`Removing ${expungedUIDs.length} expunged email(s) from ${accountName}/${folder}`);
+                        await this.emailStore.deleteEmailsByUID(accountName, folder, expungedUIDs);
+                        this.events.emit('email.deleted', { accountName, folder, uids: expungedUIDs });
+                    }
+                }
+
+                if (box.highestmodseq) {
+                    this.syncStateStore.updateFolderState(accountName, folder, { highestModSeq: box.highestmodseq });
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Failed to sync flag changes and deletions in ${accountName}/${folder}:`, error);
+        }
+    }
+
+    /**
+     * Fetch UID and flags for the given UIDs of the selected folder (every message by default),
+     * or only for the messages whose MODSEQ is above changedSince when given
+     */
+    private fetchFlags(account: IMAPAccount, changedSince?: string, uids: string | number[] = '1:*'): Promise<{ uid: number; flags: string[]; labels?: string[] }[]> {
+        return new Promise((resolve, reject) => {
+            const results: { uid: number; flags: string[]; labels?: string[] }[] = [];
+            const fetch = account.connection.fetch(uids, changedSince
+                ? { modifiers: { changedsince: changedSince } }
+                : {});
+
+            fetch.on('message', (msg: any) => {
+                msg.once('attributes', (attrs: any) => {
+                    // node-imap adds X-GM-LABELS to every fetch on Gmail
+                    results.push({ uid: attrs.uid, flags: attrs.flags || [], labels: attrs['x-gm-labels'] });
+                });
+            });
+
+            fetch.once('error', (error: Error) => {
+                logger.error(`Failed to fetch flags for ${account.config.accountName}:`, error);
+                reject(error);
+            });
+
+            fetch.once('end', () => resolve(results));
         });
+    }
 
-        // Start IDLE mode
-        imap.on('ready', () => {
-            imap.openBox('INBOX', false, (error: Error) => {
-                if (error) {
-                    logger.error(`Failed to open INBOX for IDLE mode in ${account.config.accountName}:`, error);
-                    return;
+    private sameFlags(a: string[], b: string[]): boolean {
+        // \Recent is session-specific and would otherwise show up as a change on every check
+        const normalize = (flags: string[]) => flags.filter(flag => flag !== '\\Recent').sort().join(' ');
+        return normalize(a) === normalize(b);
+    }
+
+    /**
+     * Apply an action to emails on their IMAP servers. The index is updated first, so the
+     * change shows immediately, and rolled back for every folder whose server rejects it.
+     */
+    public async applyEmailAction(action: EmailAction, refs: EmailRef[], targetFolder?: string): Promise<EmailActionResult> {
+        if (!EMAIL_ACTIONS.includes(action)) {
+            throw new RequestError(`action must be one of ${EMAIL_ACTIONS.join(', ')}`);
+        }
+        if (!Array.isArray(refs) || refs.length === 0) {
+            throw new RequestError('emails must be a non-empty list of { accountName, folder, uid }');
+        }
+        if (refs.length > MAX_ACTION_EMAILS) {
+            throw new RequestError(`At most ${MAX_ACTION_EMAILS} emails can be changed at once`);
+        }
+        if (action === 'move' && (typeof targetFolder !== 'string' || !targetFolder)) {
+            throw new RequestError('targetFolder is required to move emails');
+        }
+
+        const groups = new Map<string, { account: IMAPAccount; folder: string; uids: number[]; destination: string | null }>();
+        for (const ref of refs) {
+            if (!ref || typeof ref.accountName !== 'string' || typeof ref.folder !== 'string' || !Number.isInteger(ref.uid) || ref.uid <= 0) {
+                throw new RequestError('Each email needs an accountName, a folder and a positive integer uid');
+            }
+            const key = JSON.stringify([ref.accountName, ref.folder]);
+            const group = groups.get(key);
+            if (group) {
+                if (!group.uids.includes(ref.uid)) group.uids.push(ref.uid);
+                continue;
+            }
+
+            // Everything is checked before the first change, so a bad request changes nothing
+            const account = this.findAccount(ref.accountName);
+            if (!account) {
+                throw new RequestError(`Account ${ref.accountName} not found`, 404);
+            }
+            if (!account.isConnected) {
+                throw new RequestError(`Account ${ref.accountName} is not connected`, 503);
+            }
+            const destination = await this.resolveActionDestination(account, ref.folder, action, targetFolder);
+            groups.set(key, { account, folder: ref.folder, uids: [ref.uid], destination });
+        }
+
+        const result: EmailActionResult = { action, updated: 0, failures: [] };
+        for (const { account, folder, uids, destination } of groups.values()) {
+            try {
+                await this.applyFolderAction(account, folder, uids, action, destination);
+                result.updated += uids.length;
+            } catch (error) {
+                logger.error(`Failed to ${action} ${uids.length} email(s) in ${account.config.accountName}/${folder}:`, error);
+                result.failures.push({
+                    accountName: account.config.accountName,
+                    folder,
+                    uids,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+
+        if (result.updated === 0) {
+            throw new RequestError(`Failed to ${action} emails: ${result.failures[0].error}`, 502);
+        }
+        logger.info(`Applied ${action} to ${result.updated} email(s)${result.failures.length > 0 ? `, ${result.failures.length} folder(s) failed` : ''}`);
+        return result;
+    }
+
+    /**
+     * Apply an action to the indexed email with the given Message-ID
+     */
+    public async applyEmailActionByMessageId(messageId: string, action: EmailAction, targetFolder?: string): Promise<EmailActionResult> {
+        const email = await this.emailStore.getEmailByMessageId(messageId);
+        if (!email) {
+            throw new RequestError(`Email ${messageId} not found`, 404);
+        }
+        return this.applyEmailAction(action, [{ accountName: email.accountName, folder: email.folder, uid: email.uid }], targetFolder);
+    }
+
+    /**
+     * The folder emails end up in for an action: the target of a move, the archive folder,
+     * or the trash for deletes. Null means flags change in place, or deleted emails are expunged.
+     */
+    private async resolveActionDestination(account: IMAPAccount, folder: string, action: EmailAction, targetFolder?: string): Promise<string | null> {
+        if (FLAG_ACTIONS[action]) {
+            return null;
+        }
+
+        const accountName = account.config.accountName;
+        const folders = this.folderCache.get(accountName) || await this.getIMAPFolders(account);
+        this.folderCache.set(accountName, folders);
+
+        if (!folders.some(f => f.path === folder)) {
+            throw new RequestError(`Folder ${folder} not found for account ${accountName}`, 404);
+        }
+
+        if (action === 'delete') {
+            // Deleting from the trash itself removes the emails for good
+            const trash = this.findSpecialFolder(folders, '\\Trash');
+            return trash && trash !== folder ? trash : null;
+        }
+
+        // Gmail archives by removing the Inbox label, which leaves the message in All Mail
+        if (action === 'archive' && folder === account.gmailAllMail) {
+            return folder;
+        }
+
+        const destination = action === 'archive'
+            ? this.findSpecialFolder(folders, '\\Archive') || this.findSpecialFolder(folders, '\\All')
+            : folders.find(f => f.path === targetFolder)?.path;
+
+        if (!destination) {
+            throw action === 'archive'
+                ? new RequestError(`Account ${accountName} has no archive folder`, 409)
+                : new RequestError(`Folder ${targetFolder} not found for account ${accountName}`, 404);
+        }
+        if (destination === folder) {
+            throw new RequestError(`Emails are already in ${folder}`);
+        }
+        return destination;
+    }
+
+    /**
+     * Path of the folder with a special-use attribute (RFC 6154), falling back to common names
+     */
+    private findSpecialFolder(folders: IMAPFolder[], specialUse: string): string | undefined {
+        const matches = (value?: string) => value?.toLowerCase() === specialUse.toLowerCase();
+        const byAttribute = folders.find(folder => matches(folder.specialUse) || folder.attributes.some(matches));
+        if (byAttribute) {
+            return byAttribute.path;
+        }
+
+        const namePattern = SPECIAL_FOLDER_NAMES[specialUse];
+        return namePattern && folders.find(folder => namePattern.test(folder.path.split(/[/.]/).pop() || ''))?.path;
+    }
+
+    private async applyFolderAction(account: IMAPAccount, folder: string, uids: number[], action: EmailAction, destination: string | null): Promise<void> {
+        const accountName = account.config.accountName;
+        const previous = await this.emailStore.getEmailsByUID(accountName, folder, uids);
+        const flagChange = FLAG_ACTIONS[action];
+
+        if (flagChange) {
+            const { flag, add } = flagChange;
+            const changes = previous.map(email => ({
+                uid: email.uid,
+                flags: add
+                    ? [...new Set([...(email.flags || []), flag])]
+                    : (email.flags || []).filter(existing => existing !== flag)
+            }));
+
+            try {
+                await this.emailStore.updateEmailFlags(accountName, folder, changes);
+                await this.withMailbox(account, folder, () => this.storeFlags(account, uids, flag, add));
+            } catch (error) {
+                throw await this.rollbackIndex(error, `flags in ${accountName}/${folder}`, () =>
+                    this.emailStore.updateEmailFlags(accountName, folder, previous.map(email => ({ uid: email.uid, flags: email.flags || [] }))));
+            }
+            this.events.emit('email.flagsChanged', { accountName, folder, changes });
+            return;
+        }
+
+        if (folder === account.gmailAllMail && destination && action !== 'delete') {
+            await this.applyGmailLabelAction(account, folder, uids, previous, action === 'move' ? destination : null);
+            return;
+        }
+
+        try {
+            // Moved and deleted emails both leave this folder
+            await this.emailStore.deleteEmailsByUID(accountName, folder, uids);
+            await this.withMailbox(account, folder, () => destination
+                ? this.moveMessages(account, uids, destination)
+                : this.expungeMessages(account, uids));
+        } catch (error) {
+            throw await this.rollbackIndex(error, `removed emails in ${accountName}/${folder}`, () =>
+                this.emailStore.bulkIndexEmails(previous));
+        }
+        this.events.emit('email.deleted', { accountName, folder, uids });
+
+        if (destination) {
+            await this.indexMovedEmails(account, previous, destination);
+        }
+    }
+
+    /**
+     * Archive or move Gmail messages by their labels: archiving removes the Inbox label and
+     * moving adds the target's label instead (and leaves the inbox). Moving them out of
+     * All Mail would delete them from every label.
+     */
+    private async applyGmailLabelAction(account: IMAPAccount, folder: string, uids: number[], previous: IndexedEmailWithCategory[], destination: string | null): Promise<void> {
+        const accountName = account.config.accountName;
+        const addLabel = destination ? this.folderToGmailLabel(account, destination) : undefined;
+        const leavesInbox = addLabel !== '\\Inbox';
+
+        const changes = previous.map(email => ({
+            uid: email.uid,
+            flags: email.flags || [],
+            labels: [...new Set([
+                ...(email.labels || []).filter(label => !leavesInbox || label !== 'INBOX'),
+                ...(destination ? [destination] : [])
+            ])]
+        }));
+        try {
+            await this.emailStore.updateEmailFlags(accountName, folder, changes);
+            await this.withMailbox(account, folder, async () => {
+                if (addLabel) {
+                    await this.storeLabels(account, uids, addLabel, true);
+                }
+                if (leavesInbox) {
+                    await this.storeLabels(account, uids, '\\Inbox', false);
                 }
+            });
+        } catch (error) {
+            throw await this.rollbackIndex(error, `labels in ${accountName}/${folder}`, () =>
+                this.emailStore.updateEmailFlags(accountName, folder, previous.map(email => ({
+                    uid: email.uid,
+                    flags: email.flags || [],
+                    labels: email.labels || []
+                }))));
+        }
+        this.events.emit('email.flagsChanged', { accountName, folder, changes });
+    }
 
-                // Start IDLE
-                try {
-                    imap.on('update', (seqno: number, info: any) => {
-                        logger.info(`Email update received for ${account.config.accountName}, seqno: ${seqno}`);
-                    });
+    /**
+     * Undo an index change after the action failed, and return the error to throw. When
+     * the index cannot be restored, the error says so, as it then disagrees with the server.
+     */
+    private async rollbackIndex(error: unknown, description: string, undo: () => Promise<void>): Promise<unknown> {
+        try {
+            await undo();
+            return error;
+        } catch (rollbackError) {
+            logger.error(`Failed to roll back ${description}:`, rollbackError);
+            const message = error instanceof Error ? error.message : String(error);
+            return new Error(`${message} (rolling back ${description} in the index failed too)`);
+        }
+    }
 
-                    // Keep the connection alive with a simple ping, no email processing
-                    setInterval(() => {
-                        if (account.isConnected && imap.state === 'authenticated') {
-                            // Just check connection status, don't process emails
-                            logger.debug(`Connection check for ${account.config.accountName} - Status: ${imap.state}`);
-                        }
-                    }, 300000); // Check every 5 minutes instead of 30 seconds
+    /**
+     * Index moved emails under their new folder and UID, keeping their category and thread.
+     * Emails that cannot be found by Message-ID are indexed by the destination's next sync.
+     */
+    private async indexMovedEmails(account: IMAPAccount, emails: IndexedEmailWithCategory[], destination: string): Promise<void> {
+        const accountName = account.config.accountName;
 
-                } catch (error) {
-                    logger.error(`Failed to setup IDLE for ${account.config.accountName}:`, error);
+        try {
+            // Emails moved out of the synced folders are no longer indexed
+            const syncFolders = await this.getSyncFolders(account, true);
+            if (!syncFolders.includes(destination)) {
+                return;
+            }
+
+            await this.withMailbox(account, destination, async () => {
+                const moved: IndexedEmailWithCategory[] = [];
+                for (const email of emails) {
+                    if (!email.messageId) {
+                        continue;
+                    }
+                    const uids = await this.searchUIDs(account, [['HEADER', 'MESSAGE-ID', email.messageId]]);
+                    if (uids.length > 0) {
+                        moved.push({ ...email, folder: destination, uid: Math.max(...uids) });
+                    }
                 }
+                await this.emailStore.bulkIndexEmails(moved);
             });
+        } catch (error) {
+            logger.warn(`Failed to index emails moved to ${accountName}/${destination}, they will be indexed by the next sync: ${error}`);
+        }
+    }
+
+    private storeFlags(account: IMAPAccount, uids: number[], flag: string, add: boolean): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const callback = (error: Error | null) => error ? reject(error) : resolve();
+            if (add) {
+                account.connection.addFlags(uids, flag, callback);
+            } else {
+                account.connection.delFlags(uids, flag, callback);
+            }
+        });
+    }
+
+    private storeLabels(account: IMAPAccount, uids: number[], label: string, add: boolean): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const callback = (error: Error | null) => error ? reject(error) : resolve();
+            if (add) {
+                account.connection.addLabels(uids, label, callback);
+            } else {
+                account.connection.delLabels(uids, label, callback);
+            }
         });
     }
 
-    private async handleNewMail(account: IMAPAccount): Promise<void> {
+    private moveMessages(account: IMAPAccount, uids: number[], destination: string): Promise<void> {
+        // node-imap falls back to COPY, STORE \Deleted and EXPUNGE on servers without MOVE
+        return new Promise((resolve, reject) => {
+            account.connection.move(uids, destination, (error: Error | null) => error ? reject(error) : resolve());
+        });
+    }
+
+    /**
+     * Permanently remove messages from the selected folder. Without UIDPLUS only a plain
+     * EXPUNGE exists, which removes every message marked \Deleted, so other marked
+     * messages are unmarked while it runs.
+     */
+    private async expungeMessages(account: IMAPAccount, uids: number[]): Promise<void> {
         const imap = account.connection;
+        await this.storeFlags(account, uids, '\\Deleted', true);
+
+        if (imap.serverSupports('UIDPLUS')) {
+            await new Promise<void>((resolve, reject) => {
+                imap.expunge(uids, (error: Error | null) => error ? reject(error) : resolve());
+            });
+            return;
+        }
+
+        const othersMarked = (await this.searchUIDs(account, ['DELETED'])).filter(uid => !uids.includes(uid));
+        if (othersMarked.length > 0) {
+            await this.storeFlags(account, othersMarked, '\\Deleted', false);
+        }
+        try {
+            await new Promise<void>((resolve, reject) => {
+                imap.expunge((error: Error | null) => error ? reject(error) : resolve());
+            });
+        } finally {
+            if (othersMarked.length > 0) {
+                await this.storeFlags(account, othersMarked, '\\Deleted', true);
+            }
+        }
+    }
+
+    /**
+     * Send a reply to an indexed email over the account's SMTP server, store it in the
+     * Sent folder and mark the original as answered. Once the message is sent, failures
+     * to store it are only logged, so a reply is never reported as failed after going out.
+     */
+    public async sendReply(messageId: string, input: ReplyInput): Promise<SentReply> {
+        const { original, account, message, raw } = await this.composeReplyMessage(messageId, input);
+        const smtp = account.config.smtp;
+        if (!smtp) {
+            throw new RequestError(`Account ${original.accountName} has no SMTP settings`, 409);
+        }
+
+        try {
+            const auth = await this.buildSMTPAuth(account.config, smtp);
+            await this.smtpService.send(smtp, auth, message, raw);
+        } catch (error) {
+            logger.error(`Failed to send reply to ${messageId} from ${original.accountName}:`, error);
+            throw new RequestError(`Failed to send reply: ${error instanceof Error ? error.message : error}`, 502);
+        }
+
+        const sentFolder = await this.storeSentMessage(account, raw);
+
+        try {
+            if (account.isConnected) {
+                await this.withMailbox(account, original.folder, () => this.storeFlags(account, [original.uid], '\\Answered', true));
+            }
+        } catch (error) {
+            logger.warn(`Failed to mark ${messageId} as answered: ${error}`);
+        }
+
+        return { messageId: message.messageId, to: message.to, cc: message.cc, subject: message.subject, sentFolder };
+    }
+
+    /**
+     * Save a reply to an indexed email as a draft in the account's Drafts folder, so it can be
+     * finished in any mail client. Given replaceUid, that earlier draft is removed once the new
+     * version is stored, the way mail clients update drafts.
+     */
+    public async saveDraft(messageId: string, input: ReplyInput, replaceUid?: number): Promise<SavedDraft> {
+        if (replaceUid !== undefined && (!Number.isInteger(replaceUid) || replaceUid <= 0)) {
+            throw new RequestError('replaceUid must be a positive integer');
+        }
+
+        const { account, message, raw } = await this.composeReplyMessage(messageId, input);
+        const accountName = account.config.accountName;
+        const draftsFolder = await this.getDraftsFolder(account);
+
+        if (replaceUid !== undefined) {
+            await this.withMailbox(account, draftsFolder, () => this.assertDraft(account, draftsFolder, replaceUid));
+        }
+
+        let uid: number | undefined;
+        try {
+            uid = await this.appendMessage(account, draftsFolder, raw, ['\\Draft', '\\Seen']);
+            if (!uid) {
+                // Without UIDPLUS the server does not report the new UID, so look it up
+                const found = await this.withMailbox(account, draftsFolder, () =>
+                    this.searchUIDs(account, [['HEADER', 'MESSAGE-ID', message.messageId]]));
+                uid = found.length > 0 ? Math.max(...found) : undefined;
+            }
+        } catch (error) {
+            logger.error(`Failed to save draft reply to ${messageId} in ${accountName}/${draftsFolder}:`, error);
+            throw new RequestError(`Failed to save draft: ${error instanceof Error ? error.message : error}`, 502);
+        }
+
+        if (replaceUid !== undefined) {
+            try {
+                await this.withMailbox(account, draftsFolder, () => this.expungeMessages(account, [replaceUid]));
+            } catch (error) {
+                logger.warn(`Saved the new draft but failed to remove draft ${replaceUid} from ${accountName}/${draftsFolder}: ${error}`);
+            }
+        }
+
+        logger.info(`Saved draft reply to ${messageId} in ${accountName}/${draftsFolder}${uid ? ` with UID ${uid}` : ''}`);
+        return { accountName, folder: draftsFolder, uid, messageId: message.messageId, subject: message.subject };
+    }
+
+    /**
+     * Permanently remove a draft from the account's Drafts folder
+     */
+    public async deleteDraft(accountName: string, uid: number): Promise<void> {
+        if (!Number.isInteger(uid) || uid <= 0) {
+            throw new RequestError('uid must be a positive integer');
+        }
+        const account = this.findAccount(accountName);
+        if (!account) {
+            throw new RequestError(`Account ${accountName} not found`, 404);
+        }
+        if (!account.isConnected) {
+            throw new RequestError(`Account ${accountName} is not connected`, 503);
+        }
+
+        const draftsFolder = await this.getDraftsFolder(account);
+        await this.withMailbox(account, draftsFolder, async () => {
+            await this.assertDraft(account, draftsFolder, uid);
+            await this.expungeMessages(account, [uid]);
+        });
+        await this.emailStore.deleteEmailsByUID(accountName, draftsFolder, [uid]);
+        this.events.emit('email.deleted', { accountName, folder: draftsFolder, uids: [uid] });
+        logger.info(`Deleted draft ${uid} from ${accountName}/${draftsFolder}`);
+    }
+
+    private async getDraftsFolder(account: IMAPAccount): Promise<string> {
+        const accountName = account.config.accountName;
+        if (!account.isConnected) {
+            throw new RequestError(`Account ${accountName} is not connected`, 503);
+        }
+
+        const folders = this.folderCache.get(accountName) || await this.getIMAPFolders(account);
+        this.folderCache.set(accountName, folders);
+        const draftsFolder = this.findSpecialFolder(folders, '\\Drafts');
+        if (!draftsFolder) {
+            throw new RequestError(`Account ${accountName} has no Drafts folder`, 409);
+        }
+        return draftsFolder;
+    }
+
+    /**
+     * Only messages flagged \Draft may be replaced or deleted through the drafts API;
+     * must run with the Drafts folder selected
+     */
+    private async assertDraft(account: IMAPAccount, folder: string, uid: number): Promise<void> {
+        const [message] = await this.fetchFlags(account, undefined, [uid]);
+        if (!message) {
+            throw new RequestError(`Draft ${uid} not found in ${folder}`, 404);
+        }
+        if (!message.flags.includes('\\Draft')) {
+            throw new RequestError(`Message ${uid} in ${folder} is not a draft`, 409);
+        }
+    }
+
+    /**
+     * Build a reply to an indexed email, validating the request
+     */
+    private async composeReplyMessage(messageId: string, input: ReplyInput): Promise<{ original: IndexedEmail; account: IMAPAccount; message: OutgoingMessage; raw: Buffer }> {
+        if (!input || typeof input.body !== 'string' || !input.body.trim()) {
+            throw new RequestError('body is required');
+        }
+        const isAddressList = (value: any) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+        if (!isAddressList(input.to) || !isAddressList(input.cc)) {
+            throw new RequestError('to and cc must be lists of addresses');
+        }
+
+        const original = await this.emailStore.getEmailByMessageId(messageId);
+        if (!original) {
+            throw new RequestError(`Email ${messageId} not found`, 404);
+        }
+        const account = this.findAccount(original.accountName);
+        if (!account) {
+            throw new RequestError(`Account ${original.accountName} not found`, 404);
+        }
+
+        const message = this.smtpService.composeReply(original, input, account.config.user);
+        if (message.to.length === 0) {
+            throw new RequestError('The original email has no sender to reply to; give the recipients in to');
+        }
+        return { original, account, message, raw: await this.smtpService.compose(message) };
+    }
+
+    /**
+     * SMTP credentials: a separate SMTP login when configured, otherwise the IMAP password
+     * or a current OAuth2 access token. No credentials means an unauthenticated server.
+     */
+    private async buildSMTPAuth(config: IMAPConfig, smtp: SMTPConfig): Promise<SMTPAuth | undefined> {
+        const secrets = this.credentialVault.getSecrets(config.accountName) || {};
+
+        if (smtp.user && smtp.user !== config.user) {
+            return secrets.smtpPassword ? { user: smtp.user, pass: secrets.smtpPassword } : undefined;
+        }
+        if (config.authMethod === 'oauth2') {
+            return { type: 'OAuth2', user: config.user, accessToken: await this.tokenProvider.getAccessToken(config, secrets) };
+        }
+
+        const password = secrets.smtpPassword || secrets.password;
+        return password ? { user: config.user, pass: password } : undefined;
+    }
+
+    /**
+     * Append a sent message to the account's Sent folder, returning the folder it went to
+     */
+    private async storeSentMessage(account: IMAPAccount, raw: Buffer): Promise<string | undefined> {
+        const accountName = account.config.accountName;
+        if (!account.isConnected) {
+            logger.warn(`Not storing sent message for ${accountName}: account is not connected`);
+            return undefined;
+        }
 
         try {
-            // Get the current mailbox state to find the newest emails
-            imap.openBox('INBOX', false, (error: Error, box: any) => {
+            const folders = this.folderCache.get(accountName) || await this.getIMAPFolders(account);
+            const sentFolder = this.findSpecialFolder(folders, '\\Sent');
+            if (!sentFolder) {
+                logger.warn(`Not storing sent message for ${accountName}: no Sent folder found`);
+                return undefined;
+            }
+            await this.appendMessage(account, sentFolder, raw, ['\\Seen']);
+            return sentFolder;
+        } catch (error) {
+            logger.warn(`Failed to store sent message in the Sent folder of ${accountName}: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * APPEND a message to a folder; resolves with its UID when the server supports UIDPLUS
+     */
+    private appendMessage(account: IMAPAccount, folder: string, raw: Buffer, flags: string[]): Promise<number | undefined> {
+        return new Promise((resolve, reject) => {
+            account.connection.append(raw, { mailbox: folder, flags, date: new Date() }, (error: Error | null, uid?: number) => {
                 if (error) {
-                    logger.error(`Failed to open INBOX for new mail handling in ${account.config.accountName}:`, error);
+                    reject(error);
                     return;
                 }
+                resolve(uid);
+            });
+        });
+    }
 
-                const totalMessages = box.messages.total;
-                const accountKey = `${account.config.accountName}-INBOX`;
-                const lastProcessedUID = this.lastProcessedUID.get(accountKey) || 0;
-                
-                // Only fetch emails with UID higher than the last processed UID
-                if (totalMessages > 0) {
-                    // Search for emails with UID greater than last processed
-                    const searchCriteria = lastProcessedUID > 0 
-                        ? [['UID', `${lastProcessedUID + 1}:*`]]
-                        : [['UID', `${totalMessages}:*`]]; // If no last UID, get only the latest
-                    
-                    imap.search(searchCriteria, (searchError: Error, results: number[]) => {
-                        if (searchError) {
-                            logger.error(`Failed to search for new emails in ${account.config.accountName}:`, searchError);
-                            return;
-                        }
+    /**
+     * Run an operation with the given folder selected. Operations on one account are
+     * serialized, since a connection can only have a single mailbox selected at a time.
+     * Once the queue drains the connection is parked on the IDLE folder again so IDLE keeps working.
+     */
+    private withMailbox<T>(account: IMAPAccount, folder: string, operation: (box: any) => Promise<T>): Promise<T> {
+        const accountName = account.config.accountName;
+        const previous = this.mailboxLocks.get(accountName) || Promise.resolve();
+        this.pendingMailboxOps.set(accountName, (this.pendingMailboxOps.get(accountName) || 0) + 1);
+
+        const closed = this.connectionClosed.get(accountName) || new Promise<never>(() => undefined);
+        const result = Promise.race([
+            previous.then(async () => {
+                const box = await this.openBox(account, folder);
+                this.selectedFolders.set(accountName, folder);
+                await this.checkUidValidity(account, folder, box);
+                return operation(box);
+            }),
+            closed
+        ]);
+
+        const done = result
+            .catch(() => undefined)
+            .then(async () => {
+                const pending = (this.pendingMailboxOps.get(accountName) || 1) - 1;
+                this.pendingMailboxOps.set(accountName, pending);
+
+                const idleFolder = this.getIdleFolder(account);
+                if (pending === 0 && account.isConnected && this.selectedFolders.get(accountName) !== idleFolder) {
+                    try {
+                        const box = await this.openBox(account, idleFolder);
+                        this.selectedFolders.set(accountName, idleFolder);
 
-                        if (results && results.length > 0) {
-                            logger.info(`Processing ${results.length} new email(s) with UIDs > ${lastProcessedUID} for ${account.config.accountName}`);
-                            this.fetchAndProcessEmails(account, results, 'INBOX');
-                        } else {
-                            logger.debug(`No new emails found for ${account.config.accountName}`);
+                        // IDLE only reports mail that arrives while the folder is selected
+                        const highestUID = this.syncStateStore.getHighestUID(accountName, idleFolder);
+                        if (highestUID > 0 && Number(box.uidnext) - 1 > highestUID) {
+                            this.handleNewMail(account, idleFolder);
                         }
-                    });
-                } else {
-                    logger.info(`No emails in mailbox for ${account.config.accountName}`);
+                    } catch (error) {
+                        logger.warn(`Failed to return to ${idleFolder} for ${accountName}: ${error}`);
+                    }
                 }
             });
+        this.mailboxLocks.set(accountName, done);
 
-        } catch (error) {
-            logger.error(`Failed to handle new mail for ${account.config.accountName}:`, error);
-        }
+        return result;
     }
 
     private initializeCategorization(): void {
@@ -537,29 +2539,29 @@ export class IMAPSyncManager {
         }
     }
 
-    private async processEmail(email: EmailMessage): Promise<void> {
+    /**
+     * Categorize and index an email unless it is stored already. Resolves to whether the
+     * email is in the store afterwards; failures are logged rather than thrown.
+     */
+    private async processEmail(email: EmailMessage, historic: boolean): Promise<boolean> {
         // Log the email details
         logger.info(`Processing email: ${email.subject} from ${email.from} (${email.accountName})`);
         
         try {
-            // Check if email already exists in Elasticsearch
-            const exists = await this.elasticsearchService.emailExists(
+            // Check if email already exists in the email store
+            const exists = await this.emailStore.emailExists(
                 email.accountName, 
                 email.folder, 
                 email.uid
             );
 
             if (!exists) {
-                // Update the last processed UID for this account
-                const accountKey = `${email.accountName}-${email.folder}`;
-                const currentLastUID = this.lastProcessedUID.get(accountKey) || 0;
-                if (email.uid > currentLastUID) {
-                    this.lastProcessedUID.set(accountKey, email.uid);
-                }
+                this.events.emit('email.received', { email });
 
                 // Categorize the email
                 let emailWithCategory: IndexedEmailWithCategory = { 
                     ...email,
+                    threadId: await this.threadingService.assignThread(email),
                     indexed_at: new Date()
                 };
                 
@@ -576,11 +2578,9 @@ export class IMAPSyncManager {
   Category: ${category.category}
   🤖 Gemini Response: "${category.geminiResponse}"
   ⏰ Indexed at: ${new Date().toISOString()}`);
-                        
-                        // Send notifications for INTERESTED emails
-                        if (category.category === 'INTERESTED') {
-                            await this.notificationService.notifyInterestedEmail(emailWithCategory);
-                        }
+
+                        // Notifications for INTERESTED emails subscribe to this
+                        this.events.emit('email.categorized', { email: emailWithCategory, category, historic });
                     } catch (error) {
                         logger.error(`Failed to categorize email ${email.messageId}:`, error);
                         console.log(`❌ Failed to categorize email: ${email.subject} - ${error}`);
@@ -594,8 +2594,9 @@ export class IMAPSyncManager {
   ⏰ Indexed at: ${new Date().toISOString()}`);
                 }
 
-                // Index the email with category in Elasticsearch
-                await this.elasticsearchService.indexEmail(emailWithCategory);
+                // Index the email with category in the email store
+                await this.emailStore.indexEmail(emailWithCategory);
+                this.events.emit('email.indexed', { email: emailWithCategory, historic });
                 logger.debug(`Successfully indexed email: ${email.subject}`);
             } else {
                 logger.debug(`Email already indexed: ${email.subject}`);
@@ -604,6 +2605,7 @@ export class IMAPSyncManager {
         } catch (error) {
             logger.error(`Failed to index email ${email.messageId}:`, error);
             // Continue processing even if indexing fails
+            return false;
         }
         
         // Log the email details for debugging
@@ -615,15 +2617,25 @@ export class IMAPSyncManager {
             account: email.accountName,
             folder: email.folder
         });
+        return true;
     }
 
-    public getAccountStatus(): { accountName: string; isConnected: boolean; host: string; user: string }[] {
-        return this.accounts.map(account => ({
+    public getAccountStatus(): AccountStatus[] {
+        return this.accounts.map(account => this.toAccountStatus(account));
+    }
+
+    private toAccountStatus(account: IMAPAccount): AccountStatus {
+        return {
             accountName: account.config.accountName,
             isConnected: account.isConnected,
             host: account.config.host,
-            user: account.config.user
-        }));
+            user: account.config.user,
+            state: account.state,
+            lastError: account.lastError,
+            nextRetryAt: account.nextRetryAt,
+            reconnectAttempts: account.reconnectAttempts,
+            updateMode: account.updateMode
+        };
     }
 
     public getConnectedAccountsCount(): number {
@@ -636,7 +2648,7 @@ export class IMAPSyncManager {
 
     public async searchEmails(query: any, from: number = 0, size: number = 10): Promise<any> {
         try {
-            return await this.elasticsearchService.searchEmails(query, from, size);
+            return await this.emailStore.searchEmails(query, from, size);
         } catch (error) {
             logger.error('Failed to search emails:', error);
             throw error;
@@ -645,35 +2657,58 @@ export class IMAPSyncManager {
 
     public async getEmailByMessageId(messageId: string): Promise<any> {
         try {
-            return await this.elasticsearchService.getEmailByMessageId(messageId);
+            return await this.emailStore.getEmailByMessageId(messageId);
         } catch (error) {
             logger.error('Failed to get email by messageId:', error);
             throw error;
         }
     }
 
+    public async getThread(threadId: string): Promise<EmailThread | null> {
+        try {
+            return await this.threadingService.getThread(threadId);
+        } catch (error) {
+            logger.error(`Failed to get thread ${threadId}:`, error);
+            throw error;
+        }
+    }
+
     public async getEmailStats(): Promise<any> {
         try {
-            return await this.elasticsearchService.getEmailStats();
+            return await this.emailStore.getEmailStats();
         } catch (error) {
             logger.error('Failed to get email statistics:', error);
             throw error;
         }
     }
 
-    public async getElasticsearchHealth(): Promise<any> {
+    public getPipelineStats(): PipelineStats {
+        return this.analyticsService.getStats();
+    }
+
+    public async getStoreHealth(): Promise<any> {
         try {
-            return await this.elasticsearchService.getHealth();
+            return await this.emailStore.getHealth();
         } catch (error) {
-            logger.error('Failed to get Elasticsearch health:', error);
+            logger.error('Failed to get email store health:', error);
             throw error;
         }
     }
 
     private async disconnectAccount(account: IMAPAccount): Promise<void> {
-        if (account.connection && account.isConnected) {
+        this.clearReconnectTimer(account);
+        // A connection attempt still in flight gives up instead of starting to sync
+        account.connectionAttempt++;
+        this.setAccountState(account, 'disabled');
+
+        if (account.connection) {
             try {
-                account.connection.end();
+                if (account.isConnected) {
+                    account.connection.end();
+                } else {
+                    // Not logged in yet (or already closed): drop the socket without a LOGOUT
+                    account.connection.destroy();
+                }
                 account.isConnected = false;
                 logger.info(`Disconnected from ${account.config.accountName}`);
             } catch (error) {
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { IndexedEmailWithCategory } from '../types';
+import { EmailEventBus } from './EmailEventBus';
 
 export class NotificationService {
     private slackWebhookUrl: string;
@@ -93,6 +94,18 @@ export class NotificationService {
         }
     }
 
+    /**
+     * Notify about emails as soon as they are categorized as INTERESTED, except old mail
+     * indexed by the history backfill
+     */
+    subscribe(events: EmailEventBus): void {
+        events.on('email.categorized', async ({ email, category, historic }) => {
+            if (category.category === 'INTERESTED' && !historic) {
+                await this.notifyInterestedEmail(email);
+            }
+        });
+    }
+
     async notifyInterestedEmail(email: IndexedEmailWithCategory): Promise<void> {
         await Promise.all([
             this.sendSlackNotification(email),
@@ -0,0 +1,103 @@
+import axios from 'axios';
+import { AccountSecrets, IMAPConfig } from '../types';
+import { logger } from '../utils/logger';
+import { AuthenticationError } from '../utils/errors';
+
+interface CachedToken {
+    accessToken: string;
+    expiresAt: number;
+}
+
+const DEFAULT_EXPIRES_IN_SECONDS = 3600;
+
+/**
+ * Exchanges OAuth2 refresh tokens for access tokens and builds the XOAUTH2
+ * SASL string IMAP servers expect. Tokens are cached per account and refreshed
+ * shortly before they expire.
+ */
+export class OAuth2TokenProvider {
+    private tokens: Map<string, CachedToken> = new Map();
+    private pendingRefreshes: Map<string, Promise<CachedToken>> = new Map();
+    private refreshMarginMs: number;
+
+    constructor() {
+        this.refreshMarginMs = parseInt(process.env.OAUTH2_REFRESH_MARGIN_MS || '300000');
+    }
+
+    /**
+     * Base64 XOAUTH2 string for the account, refreshing the access token when needed
+     */
+    async getXOAuth2Token(config: IMAPConfig, secrets: AccountSecrets, forceRefresh: boolean = false): Promise<string> {
+        const accessToken = await this.getAccessToken(config, secrets, forceRefresh);
+        const authString = `user=${config.user}\x01auth=Bearer ${accessToken}\x01\x01`;
+        return Buffer.from(authString, 'utf8').toString('base64');
+    }
+
+    async getAccessToken(config: IMAPConfig, secrets: AccountSecrets, forceRefresh: boolean = false): Promise<string> {
+        const cached = this.tokens.get(config.accountName);
+        if (!forceRefresh && cached && cached.expiresAt - this.refreshMarginMs > Date.now()) {
+            return cached.accessToken;
+        }
+
+        // Concurrent callers share a single refresh request
+        let pending = this.pendingRefreshes.get(config.accountName);
+        if (!pending) {
+            pending = this.refresh(config, secrets).finally(() => this.pendingRefreshes.delete(config.accountName));
+            this.pendingRefreshes.set(config.accountName, pending);
+        }
+
+        return (await pending).accessToken;
+    }
+
+    /**
+     * Drop the cached access token, e.g. after the server rejected it
+     */
+    invalidate(accountName: string): void {
+        this.tokens.delete(accountName);
+    }
+
+    private async refresh(config: IMAPConfig, secrets: AccountSecrets): Promise<CachedToken> {
+        const oauth2 = config.oauth2;
+        if (!oauth2?.clientId || !secrets.refreshToken || !oauth2.tokenEndpoint) {
+            throw new AuthenticationError(`OAuth2 settings for ${config.accountName} are incomplete`);
+        }
+
+        const params = new URLSearchParams({
+            grant_type: 'refresh_token',
+            client_id: oauth2.clientId,
+            refresh_token: secrets.refreshToken
+        });
+        if (secrets.clientSecret) {
+            params.set('client_secret', secrets.clientSecret);
+        }
+
+        try {
+            const response = await axios.post(oauth2.tokenEndpoint, params.toString(), {
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                timeout: 15000
+            });
+
+            const accessToken = response.data?.access_token;
+            if (typeof accessToken !== 'string' || !accessToken) {
+                throw new Error('Token endpoint response did not contain an access_token');
+            }
+
+            const expiresIn = Number(response.data.expires_in) || DEFAULT_EXPIRES_IN_SECONDS;
+            const token: CachedToken = { accessToken, expiresAt: Date.now() + expiresIn * 1000 };
+            this.tokens.set(config.accountName, token);
+
+            logger.info(`Refreshed OAuth2 access token for ${config.accountName} (expires in ${expiresIn}s)`);
+            return token;
+        } catch (error: any) {
+            this.tokens.delete(config.accountName);
+
+            // 4xx answers (invalid_grant, invalid_client) will not fix themselves on retry
+            const status = error.response?.status;
+            const reason = error.response?.data?.error || error.message;
+            if (status >= 400 && status < 500) {
+                throw new AuthenticationError(`OAuth2 token refresh rejected for ${config.accountName}: ${reason}`);
+            }
+            throw new Error(`OAuth2 token refresh failed for ${config.accountName}: ${reason}`);
+        }
+    }
+}
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import addressparser from 'nodemailer/lib/addressparser';
+import { IndexedEmail, ReplyInput, SMTPConfig } from '../types';
+import { logger } from '../utils/logger';
+
+export type SMTPAuth =
+    | { user: string; pass: string }
+    | { type: 'OAuth2'; user: string; accessToken: string };
+
+export interface OutgoingMessage {
+    messageId: string;
+    from: string;
+    to: string[];
+    cc: string[];
+    subject: string;
+    text: string;
+    inReplyTo?: string;
+    references?: string[];
+}
+
+// Long References headers are trimmed to the thread root plus the most recent ancestors (RFC 5322 3.6.4)
+const MAX_REFERENCES = 20;
+
+/**
+ * Composes and sends messages over SMTP. Messages are built once as raw RFC 5322 bytes,
+ * so exactly what was sent can also be appended to the Sent folder.
+ */
+export class SMTPService {
+    private timeoutMs: number;
+
+    constructor() {
+        this.timeoutMs = parseInt(process.env.SMTP_TIMEOUT_MS || '30000');
+    }
+
+    /**
+     * A reply to an indexed email: "Re:" subject, threading headers and the original quoted below
+     */
+    composeReply(original: IndexedEmail, reply: ReplyInput, from: string): OutgoingMessage {
+        const ownAddress = SMTPService.addresses(from)[0]?.toLowerCase();
+
+        // Replying to our own message (e.g. from the Sent folder) goes to its recipients instead
+        const defaultTo = SMTPService.addresses(original.from).some(address => address.toLowerCase() === ownAddress)
+            ? SMTPService.mailboxes(original.to)
+            : SMTPService.mailboxes(original.from);
+
+        const references = [...new Set([...(original.references || []), original.messageId].filter(id => id))];
+        const trimmedReferences = references.length > MAX_REFERENCES
+            ? [references[0], ...references.slice(-(MAX_REFERENCES - 1))]
+            : references;
+
+        const subject = original.subject || '';
+        const text = reply.quote === false
+            ? reply.body
+            : `${reply.body}\n\n${SMTPService.quote(original)}`;
+
+        return {
+            messageId: SMTPService.generateMessageId(from),
+            from,
+            to: reply.to && reply.to.length > 0 ? reply.to : defaultTo,
+            cc: reply.cc || [],
+            subject: reply.subject || (/^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`),
+            text,
+            inReplyTo: original.messageId || undefined,
+            references: trimmedReferences.length > 0 ? trimmedReferences : undefined
+        };
+    }
+
+    /**
+     * Build the raw message that is sent and stored. Line breaks are CRLF throughout, as SMTP
+     * would convert them anyway and IMAP servers reject bare newlines in APPEND.
+     */
+    async compose(message: OutgoingMessage): Promise<Buffer> {
+        const composer = new MailComposer({
+            messageId: message.messageId,
+            from: message.from,
+            to: message.to,
+            cc: message.cc.length > 0 ? message.cc : undefined,
+            subject: message.subject,
+            text: message.text.replace(/\r?\n/g, '\r\n'),
+            inReplyTo: message.inReplyTo,
+            references: message.references,
+            date: new Date()
+        });
+        return composer.compile().build();
+    }
+
+    /**
+     * Send a raw message. Without auth the server is used unauthenticated, as with a local SMTP sink.
+     */
+    async send(config: SMTPConfig, auth: SMTPAuth | undefined, message: OutgoingMessage, raw: Buffer): Promise<void> {
+        const transport = nodemailer.createTransport({
+            host: config.host,
+            port: config.port,
+            secure: config.secure,
+            auth,
+            tls: config.tlsOptions,
+            connectionTimeout: this.timeoutMs,
+            greetingTimeout: this.timeoutMs,
+            socketTimeout: this.timeoutMs
+        });
+
+        try {
+            const info = await transport.sendMail({
+                envelope: {
+                    from: SMTPService.addresses(message.from)[0],
+                    to: [...message.to, ...message.cc].flatMap(address => SMTPService.addresses(address))
+                },
+                raw
+            });
+            logger.info(`Sent ${message.messageId} via ${config.host}: ${info.response}`);
+        } finally {
+            transport.close();
+        }
+    }
+
+    private static quote(original: IndexedEmail): string {
+        const quoted = (original.body || '')
+            .trimEnd()
+            .split('\n')
+            .map(line => (line.startsWith('>') ? `>${line}` : `> ${line}`))
+            .join('\n');
+        return `On ${new Date(original.date).toUTCString()}, ${original.from} wrote:\n${quoted}`;
+    }
+
+    /**
+     * Bare addresses of an address list such as `"Jane" <jane@example.com>, bob@example.com`
+     */
+    static addresses(value: string): string[] {
+        return addressparser(value || '', { flatten: true })
+            .map(address => address.address)
+            .filter(address => address);
+    }
+
+    /**
+     * Mailboxes of an address list, keeping display names: `"Jane" <jane@example.com>`
+     */
+    private static mailboxes(value: string): string[] {
+        return addressparser(value || '', { flatten: true })
+            .filter(mailbox => mailbox.address)
+            .map(mailbox => mailbox.name ? `"${mailbox.name.replace(/["\\]/g, '')}" <${mailbox.address}>` : mailbox.address);
+    }
+
+    private static generateMessageId(from: string): string {
+        const domain = SMTPService.addresses(from)[0]?.split('@')[1] || 'localhost';
+        return `<${crypto.randomUUID()}@${domain}>`;
+    }
+}
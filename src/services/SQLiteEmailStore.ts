@@ -0,0 +1,673 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { EmailMessage, EmailSearchQuery, EmailSearchResult, IndexedEmail, IndexedEmailWithCategory, SearchExpression, SearchHighlight, SearchTextField } from '../types';
+import { logger } from '../utils/logger';
+import { EmailStore } from './EmailStore';
+
+const FLUSH_DELAY_MS = 1000;
+
+// Columns are looked up directly; everything else is read from the JSON document
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS emails (
+        id TEXT PRIMARY KEY,
+        account_name TEXT NOT NULL,
+        folder TEXT NOT NULL,
+        uid INTEGER NOT NULL,
+        message_id TEXT,
+        thread_id TEXT,
+        gmail_thread_id TEXT,
+        normalized_subject TEXT,
+        in_reply_to TEXT,
+        category TEXT,
+        date INTEGER,
+        document TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS emails_by_folder ON emails (account_name, folder, uid);
+    CREATE INDEX IF NOT EXISTS emails_by_message_id ON emails (message_id);
+    CREATE INDEX IF NOT EXISTS emails_by_thread_id ON emails (thread_id);
+    CREATE INDEX IF NOT EXISTS emails_by_date ON emails (date);
+    CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts4 (subject, body, sender, recipients, attachment_text, tokenize=porter);
+`;
+
+// Full-text columns searched when attachment contents are left out
+const MESSAGE_COLUMNS = ['subject', 'body', 'sender', 'recipients'];
+
+const FIELD_COLUMNS: Record<SearchTextField, string> = {
+    from: 'sender',
+    to: 'recipients',
+    subject: 'subject'
+};
+
+/**
+ * Embedded email store for small setups and tests that run without Elasticsearch. The
+ * database (sql.js, SQLite compiled to WebAssembly) is held in memory and written to a
+ * single file shortly after changes. Text searches match every word of the query, stemmed
+ * but without fuzzy matching, and results are ordered by date like the Elasticsearch ones.
+ */
+export class SQLiteEmailStore implements EmailStore {
+    readonly backend = 'sqlite';
+    readonly filePath: string;
+    private database: Database | null = null;
+    private writeChain: Promise<void> = Promise.resolve();
+    private flushTimer: NodeJS.Timeout | null = null;
+
+    constructor(filePath?: string) {
+        this.filePath = filePath || process.env.EMAIL_STORE_FILE || 'data/emails.sqlite';
+    }
+
+    /**
+     * Open the database file, creating it if it does not exist yet
+     */
+    async initialize(): Promise<void> {
+        if (this.database) {
+            return;
+        }
+
+        try {
+            const SQL = await initSqlJs();
+            let contents: Buffer | undefined;
+            try {
+                contents = await fs.readFile(this.filePath);
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+
+            this.database = new SQL.Database(contents);
+            this.database.exec(SCHEMA);
+            logger.info(`Opened SQLite email store ${this.filePath} with ${this.count()} email(s)`);
+
+        } catch (error) {
+            logger.error(`Failed to open SQLite email store ${this.filePath}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Write pending changes and release the database
+     */
+    async close(): Promise<void> {
+        if (!this.database) {
+            return;
+        }
+        await this.flush();
+        this.database.close();
+        this.database = null;
+    }
+
+    async indexEmail(email: EmailMessage): Promise<void> {
+        this.transaction(() => this.insert(email));
+        logger.debug(`Indexed email: ${email.subject} from ${email.accountName}`);
+    }
+
+    async bulkIndexEmails(emails: EmailMessage[]): Promise<void> {
+        if (emails.length === 0) return;
+
+        this.transaction(() => emails.forEach(email => this.insert(email)));
+        logger.info(`Successfully bulk indexed ${emails.length} emails`);
+    }
+
+    async emailExists(accountName: string, folder: string, uid: number): Promise<boolean> {
+        return this.select('SELECT 1 FROM emails WHERE id = ?', [SQLiteEmailStore.id(accountName, folder, uid)]).length > 0;
+    }
+
+    async searchEmails(query: EmailSearchQuery, from: number = 0, size: number = 10): Promise<EmailSearchResult> {
+        const conditions: string[] = [];
+        const params: SqlValue[] = [];
+
+        const match: string[] = [];
+        if (query.text) {
+            SQLiteEmailStore.terms(query.text).forEach(term => {
+                match.push(query.includeAttachments === false
+                    ? `(${MESSAGE_COLUMNS.map(column => `${column}:${term}`).join(' OR ')})`
+                    : term);
+            });
+        }
+        if (query.subject) {
+            SQLiteEmailStore.terms(query.subject).forEach(term => match.push(`subject:${term}`));
+        }
+        if (query.from) {
+            SQLiteEmailStore.terms(query.from).forEach(term => match.push(`sender:${term}`));
+        }
+        if (query.to) {
+            SQLiteEmailStore.terms(query.to).forEach(term => match.push(`recipients:${term}`));
+        }
+        if (match.length > 0) {
+            conditions.push('rowid IN (SELECT docid FROM emails_fts WHERE emails_fts MATCH ?)');
+            params.push(match.join(' '));
+        }
+
+        if (query.expression) {
+            const { sql, params: expressionParams } = SQLiteEmailStore.expressionCondition(query.expression, query.includeAttachments !== false);
+            conditions.push(sql);
+            params.push(...expressionParams);
+        }
+
+        if (query.accountName) {
+            conditions.push('account_name = ?');
+            params.push(query.accountName);
+        }
+
+        if (query.folder) {
+            const { sql, params: folderParams } = SQLiteEmailStore.folderCondition(query.folder);
+            conditions.push(sql);
+            params.push(...folderParams);
+        }
+
+        if (query.flags && query.flags.length > 0) {
+            conditions.push(`EXISTS (SELECT 1 FROM json_each(document, '$.flags') WHERE value IN (SELECT value FROM json_each(?)))`);
+            params.push(JSON.stringify(query.flags));
+        }
+
+        if (query.categories && query.categories.length > 0) {
+            conditions.push('category IN (SELECT value FROM json_each(?))');
+            params.push(JSON.stringify(query.categories));
+        }
+
+        if (query.dateFrom) {
+            conditions.push('date >= ?');
+            params.push(new Date(query.dateFrom).getTime());
+        }
+        if (query.dateTo) {
+            conditions.push('date <= ?');
+            params.push(new Date(query.dateTo).getTime());
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const [{ total }] = this.select(`SELECT COUNT(*) AS total FROM emails ${where}`, params);
+        const rows = this.select(`SELECT rowid AS row_id, document FROM emails ${where} ORDER BY date DESC LIMIT ? OFFSET ?`, [...params, size, from]);
+        const highlights = this.highlight(rows.map(row => Number(row.row_id)), SQLiteEmailStore.highlightPhrases(query));
+
+        return {
+            total: Number(total),
+            hits: rows.map(row => ({
+                ...SQLiteEmailStore.withoutAttachmentText(SQLiteEmailStore.parse(row)),
+                highlight: highlights.get(Number(row.row_id))
+            }))
+        };
+    }
+
+    async getEmailByMessageId(messageId: string): Promise<IndexedEmail | null> {
+        const [row] = this.select('SELECT document FROM emails WHERE message_id = ? LIMIT 1', [messageId]);
+        return row ? SQLiteEmailStore.parse(row) : null;
+    }
+
+    async getEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<IndexedEmailWithCategory[]> {
+        if (uids.length === 0) return [];
+
+        return this.select(
+            'SELECT document FROM emails WHERE account_name = ? AND folder = ? AND uid IN (SELECT value FROM json_each(?))',
+            [accountName, folder, JSON.stringify(uids)]
+        ).map(SQLiteEmailStore.parse);
+    }
+
+    async getIndexedFlags(accountName: string, folder: string): Promise<Map<number, string[]>> {
+        const rows = this.select(
+            `SELECT uid, json_extract(document, '$.flags') AS flags FROM emails WHERE account_name = ? AND folder = ? ORDER BY uid`,
+            [accountName, folder]
+        );
+        return new Map(rows.map(row => [Number(row.uid), row.flags ? JSON.parse(String(row.flags)) : []]));
+    }
+
+    /**
+     * Replace the flags, and for Gmail the labels, of indexed emails in a folder
+     */
+    async updateEmailFlags(accountName: string, folder: string, updates: { uid: number; flags: string[]; labels?: string[] }[]): Promise<void> {
+        if (updates.length === 0) return;
+
+        this.transaction(() => {
+            for (const update of updates) {
+                // A missing row just means the email was never indexed
+                this.run(
+                    update.labels
+                        ? `UPDATE emails SET document = json_set(document, '$.flags', json(?), '$.labels', json(?)) WHERE id = ?`
+                        : `UPDATE emails SET document = json_set(document, '$.flags', json(?)) WHERE id = ?`,
+                    [
+                        JSON.stringify(update.flags),
+                        ...(update.labels ? [JSON.stringify(update.labels)] : []),
+                        SQLiteEmailStore.id(accountName, folder, update.uid)
+                    ]
+                );
+            }
+        });
+
+        logger.info(`Updated flags of ${updates.length} email(s) in ${accountName}/${folder}`);
+    }
+
+    /**
+     * Same shape as the Elasticsearch aggregation: accounts and their folders, largest first
+     */
+    async getEmailStats(): Promise<any> {
+        const rows = this.select('SELECT account_name, folder, COUNT(*) AS count FROM emails GROUP BY account_name, folder');
+
+        const accounts = new Map<string, { key: string; doc_count: number; by_folder: { buckets: { key: string; doc_count: number }[] } }>();
+        for (const row of rows) {
+            const accountName = String(row.account_name);
+            const count = Number(row.count);
+            const bucket = accounts.get(accountName) || { key: accountName, doc_count: 0, by_folder: { buckets: [] } };
+            bucket.doc_count += count;
+            bucket.by_folder.buckets.push({ key: String(row.folder), doc_count: count });
+            accounts.set(accountName, bucket);
+        }
+
+        const accountStats = [...accounts.values()].sort((a, b) => b.doc_count - a.doc_count);
+        accountStats.forEach(bucket => bucket.by_folder.buckets.sort((a, b) => b.doc_count - a.doc_count));
+
+        return {
+            totalEmails: accountStats.reduce((total, bucket) => total + bucket.doc_count, 0),
+            accountStats
+        };
+    }
+
+    async getHealth(): Promise<any> {
+        let sizeBytes = 0;
+        try {
+            sizeBytes = (await fs.stat(this.filePath)).size;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        return {
+            backend: this.backend,
+            file: this.filePath,
+            emails: this.count(),
+            sizeBytes
+        };
+    }
+
+    async deleteEmailsByAccount(accountName: string): Promise<void> {
+        this.deleteWhere('account_name = ?', [accountName]);
+        logger.info(`Deleted all emails for account: ${accountName}`);
+    }
+
+    async deleteEmailsByFolder(accountName: string, folder: string): Promise<void> {
+        this.deleteWhere('account_name = ? AND folder = ?', [accountName, folder]);
+        logger.info(`Deleted all emails in folder ${folder} for account: ${accountName}`);
+    }
+
+    async deleteEmailsOutsideFolder(accountName: string, folder: string): Promise<number> {
+        const deleted = this.deleteWhere('account_name = ? AND folder != ?', [accountName, folder]);
+        if (deleted > 0) {
+            logger.info(`Deleted ${deleted} email(s) outside ${folder} for account: ${accountName}`);
+        }
+        return deleted;
+    }
+
+    async deleteEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<void> {
+        if (uids.length === 0) return;
+
+        this.deleteWhere('account_name = ? AND folder = ? AND uid IN (SELECT value FROM json_each(?))', [accountName, folder, JSON.stringify(uids)]);
+        logger.info(`Deleted ${uids.length} email(s) from ${accountName}/${folder}`);
+    }
+
+    async getThreadIdsByMessageIds(messageIds: string[]): Promise<Map<string, string>> {
+        const threadIds = new Map<string, string>();
+        if (messageIds.length === 0) return threadIds;
+
+        this.select(
+            'SELECT message_id, thread_id FROM emails WHERE thread_id IS NOT NULL AND message_id IN (SELECT value FROM json_each(?))',
+            [JSON.stringify(messageIds)]
+        ).forEach(row => threadIds.set(String(row.message_id), String(row.thread_id)));
+
+        return threadIds;
+    }
+
+    async getThreadIdsReferencing(messageId: string): Promise<string[]> {
+        return this.select(
+            `SELECT DISTINCT thread_id FROM emails WHERE thread_id IS NOT NULL
+                AND (in_reply_to = ? OR EXISTS (SELECT 1 FROM json_each(document, '$.references') WHERE value = ?))`,
+            [messageId, messageId]
+        ).map(row => String(row.thread_id));
+    }
+
+    async getThreadIdByGmailThreadId(accountName: string, gmailThreadId: string): Promise<string | null> {
+        const [row] = this.select(
+            'SELECT thread_id FROM emails WHERE account_name = ? AND gmail_thread_id = ? AND thread_id IS NOT NULL LIMIT 1',
+            [accountName, gmailThreadId]
+        );
+        return row ? String(row.thread_id) : null;
+    }
+
+    async getThreadIdBySubject(normalizedSubject: string, before: Date, maxAgeDays: number): Promise<string | null> {
+        const [row] = this.select(
+            `SELECT thread_id FROM emails WHERE normalized_subject = ? AND thread_id IS NOT NULL
+                AND date <= ? AND date >= ? ORDER BY date DESC LIMIT 1`,
+            [normalizedSubject, before.getTime(), before.getTime() - maxAgeDays * 24 * 60 * 60 * 1000]
+        );
+        return row ? String(row.thread_id) : null;
+    }
+
+    async reassignThreads(fromThreadIds: string[], toThreadId: string): Promise<void> {
+        if (fromThreadIds.length === 0) return;
+
+        this.run(
+            `UPDATE emails SET thread_id = ?, document = json_set(document, '$.threadId', ?)
+                WHERE thread_id IN (SELECT value FROM json_each(?))`,
+            [toThreadId, toThreadId, JSON.stringify(fromThreadIds)]
+        );
+        logger.info(`Merged thread(s) ${fromThreadIds.join(', ')} into ${toThreadId}`);
+    }
+
+    async getThread(threadId: string): Promise<IndexedEmail[]> {
+        return this.select('SELECT document FROM emails WHERE thread_id = ? ORDER BY date ASC LIMIT 1000', [threadId])
+            .map(row => SQLiteEmailStore.withoutAttachmentText(SQLiteEmailStore.parse(row)));
+    }
+
+    /**
+     * Subject and body fragments of the given rows around the searched phrases, marked up
+     * like Elasticsearch highlights
+     */
+    private highlight(rowIds: number[], phrases: string[]): Map<number, SearchHighlight> {
+        const highlights = new Map<number, SearchHighlight>();
+        if (rowIds.length === 0 || phrases.length === 0) {
+            return highlights;
+        }
+
+        // Control characters mark the matches, as the text still has to be HTML-escaped
+        const rows = this.select(
+            `SELECT docid,
+                    snippet(emails_fts, char(1), char(2), '…', 0, 64) AS subject,
+                    snippet(emails_fts, char(1), char(2), '…', 1, 30) AS body
+                FROM emails_fts WHERE emails_fts MATCH ? AND docid IN (SELECT value FROM json_each(?))`,
+            [phrases.join(' OR '), JSON.stringify(rowIds)]
+        );
+
+        for (const row of rows) {
+            const highlight: SearchHighlight = {};
+            (['subject', 'body'] as const).forEach(field => {
+                const fragment = String(row[field] || '');
+                if (fragment.includes('\u0001')) {
+                    highlight[field] = [SQLiteEmailStore.markMatches(fragment)];
+                }
+            });
+            if (highlight.subject || highlight.body) {
+                highlights.set(Number(row.docid), highlight);
+            }
+        }
+
+        return highlights;
+    }
+
+    /**
+     * Write pending changes to disk immediately
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        await this.persist();
+    }
+
+    private get db(): Database {
+        if (!this.database) {
+            throw new Error('SQLite email store is not initialized');
+        }
+        return this.database;
+    }
+
+    /**
+     * Replace the row of an email (and its full-text entry); the caller runs it in a transaction
+     */
+    private insert(email: EmailMessage): void {
+        const indexed: IndexedEmailWithCategory = { ...email, indexed_at: new Date() };
+        const id = SQLiteEmailStore.id(email.accountName, email.folder, email.uid);
+        const date = new Date(email.date).getTime();
+
+        this.deleteWhere('id = ?', [id]);
+        this.db.run(
+            `INSERT INTO emails (id, account_name, folder, uid, message_id, thread_id, gmail_thread_id, normalized_subject, in_reply_to, category, date, document)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                id,
+                email.accountName,
+                email.folder,
+                email.uid,
+                email.messageId || null,
+                email.threadId || null,
+                email.gmailThreadId || null,
+                email.normalizedSubject || null,
+                email.inReplyTo || null,
+                indexed.category?.category || null,
+                Number.isNaN(date) ? null : date,
+                JSON.stringify(indexed)
+            ]
+        );
+        this.db.run(
+            `INSERT INTO emails_fts (docid, subject, body, sender, recipients, attachment_text)
+                VALUES (last_insert_rowid(), ?, ?, ?, ?, ?)`,
+            [email.subject || '', email.body || '', email.from || '', email.to || '', email.attachmentText || '']
+        );
+    }
+
+    private deleteWhere(condition: string, params: SqlValue[]): number {
+        this.db.run(`DELETE FROM emails_fts WHERE docid IN (SELECT rowid FROM emails WHERE ${condition})`, params);
+        this.db.run(`DELETE FROM emails WHERE ${condition}`, params);
+        const deleted = this.db.getRowsModified();
+        this.scheduleFlush();
+        return deleted;
+    }
+
+    private run(sql: string, params: SqlValue[]): void {
+        this.db.run(sql, params);
+        this.scheduleFlush();
+    }
+
+    private transaction(operation: () => void): void {
+        this.db.exec('BEGIN');
+        try {
+            operation();
+            this.db.exec('COMMIT');
+        } catch (error) {
+            this.db.exec('ROLLBACK');
+            throw error;
+        }
+        this.scheduleFlush();
+    }
+
+    private select(sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+        const statement = this.db.prepare(sql, params);
+        try {
+            const rows: Record<string, SqlValue>[] = [];
+            while (statement.step()) {
+                rows.push(statement.getAsObject());
+            }
+            return rows;
+        } finally {
+            statement.free();
+        }
+    }
+
+    private count(): number {
+        return Number(this.select('SELECT COUNT(*) AS total FROM emails')[0].total);
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) {
+            return;
+        }
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.persist();
+        }, FLUSH_DELAY_MS);
+    }
+
+    /**
+     * Serialize writes so a slow write never overtakes a later one
+     */
+    private persist(): Promise<void> {
+        this.writeChain = this.writeChain
+            .then(() => this.writeFile())
+            .catch((error) => {
+                logger.error(`Failed to persist SQLite email store to ${this.filePath}:`, error);
+            });
+        return this.writeChain;
+    }
+
+    private async writeFile(): Promise<void> {
+        if (!this.database) {
+            return;
+        }
+        const contents = this.database.export();
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, contents);
+        await fs.rename(tmpPath, this.filePath);
+    }
+
+    /**
+     * Translate a parsed search string into a WHERE condition. Each text term is matched
+     * as a phrase of its words, so `bob@example.com` needs those words in that order.
+     */
+    private static expressionCondition(expression: SearchExpression, includeAttachments: boolean): { sql: string; params: SqlValue[] } {
+        const combine = (clauses: SearchExpression[], operator: string) => {
+            const compiled = clauses.map(clause => SQLiteEmailStore.expressionCondition(clause, includeAttachments));
+            return {
+                sql: `(${compiled.map(({ sql }) => sql).join(` ${operator} `)})`,
+                params: compiled.flatMap(({ params }) => params)
+            };
+        };
+
+        switch (expression.type) {
+            case 'and':
+                return combine(expression.clauses, 'AND');
+
+            case 'or':
+                return combine(expression.clauses, 'OR');
+
+            case 'not': {
+                const { sql, params } = SQLiteEmailStore.expressionCondition(expression.clause, includeAttachments);
+                // Comparisons with a NULL column (no category, no date) are NULL, and so is
+                // their negation; treat them as false so e.g. -category:spam keeps uncategorized mail
+                return { sql: `NOT COALESCE(${sql}, 0)`, params };
+            }
+
+            case 'text': {
+                const terms = SQLiteEmailStore.terms(expression.value);
+                if (terms.length === 0) {
+                    return { sql: '0', params: [] };
+                }
+                const phrase = `"${terms.join(' ')}"`;
+                const columns = expression.field
+                    ? [FIELD_COLUMNS[expression.field]]
+                    : includeAttachments ? null : MESSAGE_COLUMNS;
+                if (!columns) {
+                    return { sql: 'rowid IN (SELECT docid FROM emails_fts WHERE emails_fts MATCH ?)', params: [phrase] };
+                }
+                // Matching against a column name restricts the match to that column
+                return {
+                    sql: `rowid IN (${columns.map(column => `SELECT docid FROM emails_fts WHERE ${column} MATCH ?`).join(' UNION ')})`,
+                    params: columns.map(() => phrase)
+                };
+            }
+
+            case 'category':
+                return { sql: 'category = ?', params: [expression.category] };
+
+            case 'flag':
+                return {
+                    sql: `${expression.present ? '' : 'NOT '}EXISTS (SELECT 1 FROM json_each(document, '$.flags') WHERE value = ?)`,
+                    params: [expression.flag]
+                };
+
+            case 'hasAttachment':
+                // Inline images are part of the body, not attachments
+                return {
+                    sql: `EXISTS (SELECT 1 FROM json_each(document, '$.attachments') WHERE json_extract(value, '$.inline') IS NOT 1)`,
+                    params: []
+                };
+
+            case 'date':
+                return expression.before
+                    ? { sql: 'date < ?', params: [expression.before.getTime()] }
+                    : { sql: 'date >= ?', params: [expression.after!.getTime()] };
+
+            case 'folder':
+                return SQLiteEmailStore.folderCondition(expression.folder);
+
+            case 'account':
+                return { sql: 'account_name = ?', params: [expression.accountName] };
+        }
+    }
+
+    /**
+     * Full-text phrases a search looks for in the subject or body; negated terms and other
+     * fields are left out, as they never show up in those fragments
+     */
+    private static highlightPhrases(query: EmailSearchQuery): string[] {
+        const phrases: string[] = [];
+        const add = (value: string) => {
+            const terms = SQLiteEmailStore.terms(value);
+            if (terms.length > 0) {
+                phrases.push(`"${terms.join(' ')}"`);
+            }
+        };
+        const visit = (expression: SearchExpression) => {
+            if (expression.type === 'and' || expression.type === 'or') {
+                expression.clauses.forEach(visit);
+            } else if (expression.type === 'text' && (!expression.field || expression.field === 'subject')) {
+                add(expression.value);
+            }
+        };
+
+        if (query.text) {
+            SQLiteEmailStore.terms(query.text).forEach(add);
+        }
+        if (query.subject) {
+            SQLiteEmailStore.terms(query.subject).forEach(add);
+        }
+        if (query.expression) {
+            visit(query.expression);
+        }
+        return phrases;
+    }
+
+    private static markMatches(fragment: string): string {
+        return fragment
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;')
+            .replace(/\u0001/g, '<mark>')
+            .replace(/\u0002/g, '</mark>');
+    }
+
+    /**
+     * Gmail messages are indexed once, under All Mail, and carry their other folders as labels
+     */
+    private static folderCondition(folder: string): { sql: string; params: SqlValue[] } {
+        return {
+            sql: `(folder = ? OR EXISTS (SELECT 1 FROM json_each(document, '$.labels') WHERE value = ?))`,
+            params: [folder, folder]
+        };
+    }
+
+    private static id(accountName: string, folder: string, uid: number): string {
+        return `${accountName}-${folder}-${uid}`;
+    }
+
+    private static parse(row: Record<string, SqlValue>): IndexedEmailWithCategory {
+        return JSON.parse(String(row.document));
+    }
+
+    /**
+     * Extracted attachment text can be large and is only needed for matching
+     */
+    private static withoutAttachmentText(email: IndexedEmailWithCategory): IndexedEmailWithCategory {
+        const { attachmentText, ...rest } = email;
+        return rest;
+    }
+
+    /**
+     * Words of a user query as full-text terms. Punctuation is dropped and words are lowercased,
+     * as the FTS query parser only treats uppercase AND, OR, NOT and NEAR as operators.
+     */
+    private static terms(text: string): string[] {
+        return (text.match(/[\p{L}\p{N}]+/gu) || []).map(word => word.toLowerCase());
+    }
+}
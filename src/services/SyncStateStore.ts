@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BackfillProgress, FolderSyncState } from '../types';
+import { logger } from '../utils/logger';
+
+interface SyncStateFile {
+    version: number;
+    folders: Record<string, FolderSyncState>;
+    backfill: Record<string, BackfillProgress>;
+}
+
+const FLUSH_DELAY_MS = 500;
+
+/**
+ * Durable store for per-account, per-folder synchronization state.
+ * State is kept in memory and flushed to a JSON file after changes.
+ */
+export class SyncStateStore {
+    private filePath: string;
+    private state: SyncStateFile = { version: 1, folders: {}, backfill: {} };
+    private isLoaded: boolean = false;
+    private writeChain: Promise<void> = Promise.resolve();
+    private flushTimer: NodeJS.Timeout | null = null;
+
+    constructor(filePath?: string) {
+        this.filePath = filePath || process.env.SYNC_STATE_FILE || 'data/sync-state.json';
+    }
+
+    /**
+     * Load the state file from disk, starting empty if it does not exist yet. An unreadable
+     * or corrupt file is an error: starting fresh would forget each folder's UIDVALIDITY,
+     * and a change of it would then go unnoticed.
+     */
+    async load(): Promise<void> {
+        if (this.isLoaded) {
+            return;
+        }
+
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, 'utf8');
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`Failed to read sync state from ${this.filePath}: ${error.message}`);
+            }
+            this.isLoaded = true;
+            return;
+        }
+
+        let parsed: Partial<SyncStateFile>;
+        try {
+            parsed = JSON.parse(raw);
+        } catch (error: any) {
+            throw new Error(`Sync state file ${this.filePath} is corrupt (${error.message}); fix or move it away before starting`);
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error(`Sync state file ${this.filePath} is corrupt (expected an object); fix or move it away before starting`);
+        }
+
+        this.state = {
+            version: parsed.version || 1,
+            folders: parsed.folders || {},
+            backfill: parsed.backfill || {}
+        };
+        logger.info(`Loaded sync state for ${Object.keys(this.state.folders).length} folder(s) from ${this.filePath}`);
+        this.isLoaded = true;
+    }
+
+    getFolderState(accountName: string, folder: string): FolderSyncState | undefined {
+        return this.state.folders[SyncStateStore.key(accountName, folder)];
+    }
+
+    getAllFolderStates(): FolderSyncState[] {
+        return Object.values(this.state.folders);
+    }
+
+    getHighestUID(accountName: string, folder: string): number {
+        return this.getFolderState(accountName, folder)?.highestUID || 0;
+    }
+
+    /**
+     * Merge changes into a folder's state. Writes are batched since this runs per message.
+     */
+    updateFolderState(accountName: string, folder: string, changes: Partial<Omit<FolderSyncState, 'accountName' | 'folder'>>): FolderSyncState {
+        const key = SyncStateStore.key(accountName, folder);
+        const current = this.state.folders[key] || { accountName, folder, uidValidity: 0, highestUID: 0 };
+
+        const updated: FolderSyncState = {
+            ...current,
+            ...changes,
+            updatedAt: new Date().toISOString()
+        };
+        this.state.folders[key] = updated;
+        this.scheduleFlush();
+
+        return updated;
+    }
+
+    /**
+     * Raise the highest processed UID of a folder; lower UIDs are ignored
+     */
+    recordUID(accountName: string, folder: string, uid: number): void {
+        if (uid > this.getHighestUID(accountName, folder)) {
+            this.updateFolderState(accountName, folder, { highestUID: uid });
+        }
+    }
+
+    /**
+     * Forget everything known about a folder after its UIDVALIDITY changed
+     */
+    async resetFolder(accountName: string, folder: string, uidValidity: number): Promise<void> {
+        const key = SyncStateStore.key(accountName, folder);
+        this.state.folders[key] = {
+            accountName,
+            folder,
+            uidValidity,
+            highestUID: 0,
+            updatedAt: new Date().toISOString()
+        };
+        delete this.state.backfill[key];
+        await this.persist();
+    }
+
+    /**
+     * Drop all folder and backfill state of an account that was removed
+     */
+    async removeAccount(accountName: string): Promise<void> {
+        for (const [key, folderState] of Object.entries(this.state.folders)) {
+            if (folderState.accountName === accountName) {
+                delete this.state.folders[key];
+            }
+        }
+        for (const [key, progress] of Object.entries(this.state.backfill)) {
+            if (progress.accountName === accountName) {
+                delete this.state.backfill[key];
+            }
+        }
+        await this.persist();
+    }
+
+    getBackfillProgress(accountName: string, folder: string): BackfillProgress | undefined {
+        return this.state.backfill[SyncStateStore.key(accountName, folder)];
+    }
+
+    getAllBackfillProgress(): BackfillProgress[] {
+        return Object.values(this.state.backfill);
+    }
+
+    async saveBackfillProgress(progress: BackfillProgress): Promise<void> {
+        progress.updatedAt = new Date().toISOString();
+        this.state.backfill[SyncStateStore.key(progress.accountName, progress.folder)] = progress;
+        await this.persist();
+    }
+
+    /**
+     * Write any pending changes to disk immediately
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        await this.persist();
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) {
+            return;
+        }
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.persist();
+        }, FLUSH_DELAY_MS);
+    }
+
+    /**
+     * Serialize writes so concurrent updates never interleave on disk
+     */
+    private persist(): Promise<void> {
+        this.writeChain = this.writeChain
+            .then(() => this.writeFile())
+            .catch((error) => {
+                logger.error(`Failed to persist sync state to ${this.filePath}:`, error);
+            });
+        return this.writeChain;
+    }
+
+    private async writeFile(): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(this.state, null, 2), 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+    }
+
+    static key(accountName: string, folder: string): string {
+        return `${accountName}-${folder}`;
+    }
+}
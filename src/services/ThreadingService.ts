@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { EmailMessage, EmailThread, IndexedEmail } from '../types';
+import { logger } from '../utils/logger';
+import { EmailStore } from './EmailStore';
+
+// Reply and forward prefixes in common mail client languages, possibly repeated ("Re: Fwd: Re[2]:")
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|antw|rif|r|tr)(\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * Groups emails into conversations. The thread of a message is found, in order, from:
+ * 0. for Gmail, an indexed message with the same X-GM-THRID,
+ * 1. an indexed message it replies to or references,
+ * 2. the first entry of its References header (or In-Reply-To), which is stable for every reply in the thread,
+ * 3. an earlier message with the same subject, for replies sent without reply headers
+ *    (not for Gmail, whose own threading already covers them),
+ * 4. its own Message-ID, starting a new thread.
+ * Thread IDs are derived from a root Message-ID, so they are stable across folders, accounts and re-syncs.
+ */
+export class ThreadingService {
+    private emailStore: EmailStore;
+    private subjectMatchDays: number;
+
+    constructor(emailStore: EmailStore) {
+        this.emailStore = emailStore;
+        this.subjectMatchDays = parseInt(process.env.THREAD_SUBJECT_MATCH_DAYS || '90');
+    }
+
+    static normalizeSubject(subject: string): string {
+        return subject.replace(SUBJECT_PREFIX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+    }
+
+    static threadIdFor(rootMessageId: string): string {
+        return crypto.createHash('sha1').update(rootMessageId).digest('hex').slice(0, 16);
+    }
+
+    /**
+     * Work out the thread of a new email and merge threads it turns out to connect
+     */
+    async assignThread(email: EmailMessage): Promise<string> {
+        const references = email.references || [];
+        const parents = [...new Set([email.inReplyTo, ...[...references].reverse()].filter((id): id is string => !!id))];
+
+        let threadId: string | null = null;
+
+        try {
+            if (email.gmailThreadId) {
+                // Gmail's own conversation wins over the headers
+                threadId = await this.emailStore.getThreadIdByGmailThreadId(email.accountName, email.gmailThreadId);
+            }
+
+            if (!threadId && parents.length > 0) {
+                // The closest ancestor already indexed wins
+                const indexed = await this.emailStore.getThreadIdsByMessageIds(parents);
+                const parent = parents.find(id => indexed.has(id));
+                threadId = parent ? indexed.get(parent)! : ThreadingService.threadIdFor(references[0] || parents[0]);
+            } else if (!threadId && !email.gmailThreadId && email.normalizedSubject && email.normalizedSubject !== email.subject.trim().toLowerCase()) {
+                // Only subjects with a reply prefix are matched, so unrelated "Hello" emails stay apart
+                threadId = await this.emailStore.getThreadIdBySubject(email.normalizedSubject, new Date(email.date), this.subjectMatchDays);
+            }
+
+            threadId = threadId || ThreadingService.threadIdFor(email.messageId || `${email.accountName}-${email.folder}-${email.uid}`);
+
+            // Replies indexed before this message (e.g. during a newest-first backfill) may have started their own thread
+            if (email.messageId) {
+                const childThreads = await this.emailStore.getThreadIdsReferencing(email.messageId);
+                const orphaned = childThreads.filter(id => id !== threadId);
+                if (orphaned.length > 0) {
+                    await this.emailStore.reassignThreads(orphaned, threadId);
+                }
+            }
+        } catch (error) {
+            logger.warn(`Thread lookup failed for ${email.messageId}, falling back to its headers: ${error}`);
+            threadId = threadId || ThreadingService.threadIdFor(references[0] || email.inReplyTo || email.messageId || `${email.accountName}-${email.folder}-${email.uid}`);
+        }
+
+        return threadId;
+    }
+
+    /**
+     * The ordered conversation, with copies of the same message in several folders shown once
+     */
+    async getThread(threadId: string): Promise<EmailThread | null> {
+        const emails = await this.emailStore.getThread(threadId);
+        if (emails.length === 0) {
+            return null;
+        }
+
+        const seen = new Set<string>();
+        const messages = emails.filter(email => {
+            const key = email.messageId || `${email.accountName}-${email.folder}-${email.uid}`;
+            if (seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+
+        return {
+            threadId,
+            subject: messages[0].subject,
+            messageCount: messages.length,
+            participants: this.getParticipants(messages),
+            messages
+        };
+    }
+
+    private getParticipants(messages: IndexedEmail[]): string[] {
+        const participants = new Set<string>();
+        for (const message of messages) {
+            [message.from, ...(message.to || '').split(',')]
+                .map(address => address.trim())
+                .filter(address => address)
+                .forEach(address => participants.add(address));
+        }
+        return [...participants];
+    }
+}
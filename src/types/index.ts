@@ -1,11 +1,48 @@
+export type IMAPAuthMethod = 'password' | 'oauth2';
+
+export interface OAuth2Config {
+    clientId: string;
+    tokenEndpoint: string;
+}
+
+// Credentials are kept in the encrypted CredentialVault, never on IMAPConfig
+export interface AccountSecrets {
+    password?: string;
+    refreshToken?: string;
+    clientSecret?: string;
+    // Only needed when SMTP logs in with a different user than IMAP
+    smtpPassword?: string;
+}
+
+export interface SMTPConfig {
+    host: string;
+    port: number;
+    // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+    secure: boolean;
+    // Defaults to the IMAP user, whose password or OAuth2 token is then reused
+    user?: string;
+    tlsOptions?: any;
+}
+
+// How an account learns about changes: IDLE push, NOOP/STATUS polling, or IDLE backed by polling
+export type UpdateMode = 'idle' | 'poll' | 'hybrid';
+
 export interface IMAPConfig {
     host: string;
     port: number;
     user: string;
-    password: string;
+    authMethod?: IMAPAuthMethod;
+    oauth2?: OAuth2Config;
+    smtp?: SMTPConfig;
     tls: boolean;
     tlsOptions?: any;
     accountName: string;
+    // Folder patterns ("*" wildcard, case-insensitive); empty include list means every folder
+    includeFolders?: string[];
+    excludeFolders?: string[];
+    disabled?: boolean;
+    // Chosen from the server's CAPABILITY response when not set
+    updateMode?: UpdateMode;
 }
 
 export interface EmailMessage {
@@ -15,16 +52,68 @@ export interface EmailMessage {
     from: string;
     to: string;
     date: Date;
+    // Plain-text body; generated from the HTML part when the message has no text part
     body: string;
+    // Sanitized HTML body, with inline images pointing at attachment URLs
+    htmlBody?: string;
     folder: string;
     accountName: string;
     flags: string[];
+    attachments?: EmailAttachment[];
+    // Text extracted from document attachments, searchable separately from the body
+    attachmentText?: string;
+    inReplyTo?: string;
+    references?: string[];
+    // Stable conversation ID, shared by all emails of a thread across folders and accounts
+    threadId?: string;
+    normalizedSubject?: string;
+    // Gmail only: the message's labels as folder paths (e.g. INBOX), and Gmail's own IDs
+    labels?: string[];
+    gmailMessageId?: string;
+    gmailThreadId?: string;
+}
+
+export interface EmailAttachment {
+    filename: string;
+    contentType: string;
+    size: number;
+    contentId?: string;
+    // SHA-256 of the content, which is also its key in the AttachmentStore
+    hash: string;
+    inline: boolean;
 }
 
+export type AccountConnectionState = 'connecting' | 'syncing' | 'idle' | 'backoff' | 'auth-failed' | 'disabled';
+
 export interface IMAPAccount {
     config: IMAPConfig;
+    // Accounts from IMAPn_* environment variables are read-only at runtime
+    source: 'env' | 'api';
     connection: any;
     isConnected: boolean;
+    state: AccountConnectionState;
+    lastError?: string;
+    nextRetryAt?: Date;
+    reconnectAttempts: number;
+    reconnectTimer?: NodeJS.Timeout;
+    // Bumped by every connection attempt and disconnect, so a superseded attempt can tell
+    connectionAttempt: number;
+    // Mode in use on the current connection
+    updateMode?: UpdateMode;
+    // Set when the server supports X-GM-EXT-1 and only this "All Mail" folder is synced
+    gmailAllMail?: string;
+}
+
+export interface AccountStatus {
+    accountName: string;
+    isConnected: boolean;
+    host: string;
+    user: string;
+    state: AccountConnectionState;
+    lastError?: string;
+    nextRetryAt?: Date;
+    reconnectAttempts: number;
+    updateMode?: UpdateMode;
 }
 
 export interface ElasticsearchConfig {
@@ -40,9 +129,19 @@ export interface IndexedEmail {
     to: string;
     date: Date;
     body: string;
+    htmlBody?: string;
     folder: string;
     accountName: string;
     flags: string[];
+    attachments?: EmailAttachment[];
+    attachmentText?: string;
+    inReplyTo?: string;
+    references?: string[];
+    threadId?: string;
+    normalizedSubject?: string;
+    labels?: string[];
+    gmailMessageId?: string;
+    gmailThreadId?: string;
     indexed_at: Date;
 }
 
@@ -57,12 +156,37 @@ export interface EmailSearchQuery {
     dateTo?: Date;
     flags?: string[];
     categories?: string[];
+    // Whether `text` also matches attachment contents; defaults to true
+    includeAttachments?: boolean;
+    // A parsed search string, combined with the fields above
+    expression?: SearchExpression;
 }
 
+export type SearchTextField = 'from' | 'to' | 'subject';
+
+/**
+ * A search string like `from:alice is:unread (invoice OR receipt) -category:spam`, parsed.
+ * Stores turn it into their own query; dates are UTC midnights.
+ */
+export type SearchExpression =
+    | { type: 'and'; clauses: SearchExpression[] }
+    | { type: 'or'; clauses: SearchExpression[] }
+    | { type: 'not'; clause: SearchExpression }
+    // Without a field, text matches subject, body, addresses and attachment contents
+    | { type: 'text'; value: string; phrase: boolean; field?: SearchTextField }
+    | { type: 'category'; category: CategoryLabel }
+    | { type: 'flag'; flag: string; present: boolean }
+    | { type: 'hasAttachment' }
+    | { type: 'date'; before?: Date; after?: Date }
+    | { type: 'folder'; folder: string }
+    | { type: 'account'; accountName: string };
+
 export interface IMAPFolder {
     name: string;
     path: string;
     messageCount: number;
+    attributes: string[];
+    specialUse?: string;
 }
 
 export interface EmailFolder {
@@ -70,6 +194,36 @@ export interface EmailFolder {
     count: number;
 }
 
+export type SyncMode = 'recent' | 'backfill';
+
+export interface FolderSyncState {
+    accountName: string;
+    folder: string;
+    uidValidity: number;
+    highestUID: number;
+    // MODSEQ values are 63-bit, so they are kept as strings like node-imap reports them
+    highestModSeq?: string;
+    updatedAt?: string;
+}
+
+export type BackfillStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface BackfillProgress {
+    accountName: string;
+    folder: string;
+    status: BackfillStatus;
+    totalMessages: number;
+    processedMessages: number;
+    // Highest UID present when the backfill started; newer mail is handled by incremental sync
+    newestUID: number;
+    // Lowest UID processed so far; the backfill resumes below this UID
+    oldestProcessedUID: number;
+    startedAt?: string;
+    updatedAt?: string;
+    completedAt?: string;
+    error?: string;
+}
+
 export interface EmailSearchQuery {
     text?: string;
     subject?: string;
@@ -84,9 +238,73 @@ export interface EmailSearchQuery {
     flags?: string[];
 }
 
+export type EmailAction = 'markRead' | 'markUnread' | 'star' | 'unstar' | 'move' | 'archive' | 'delete';
+
+// Identifies one email on its server; the same Message-ID can exist in several folders
+export interface EmailRef {
+    accountName: string;
+    folder: string;
+    uid: number;
+}
+
+export interface EmailActionResult {
+    action: EmailAction;
+    updated: number;
+    // Emails the server rejected, grouped per account and folder; their index changes were rolled back
+    failures: { accountName: string; folder: string; uids: number[]; error: string }[];
+}
+
+export interface ReplyInput {
+    body: string;
+    // Defaults to "Re: " and the original subject
+    subject?: string;
+    // Defaults to the sender of the original email
+    to?: string[];
+    cc?: string[];
+    // Whether the original email is quoted below the reply; defaults to true
+    quote?: boolean;
+}
+
+export interface SentReply {
+    messageId: string;
+    to: string[];
+    cc: string[];
+    subject: string;
+    // Where the sent message was stored, if the account has a Sent folder
+    sentFolder?: string;
+}
+
+export interface SavedDraft {
+    accountName: string;
+    folder: string;
+    // Missing only if the server neither reports it (UIDPLUS) nor finds the draft by Message-ID
+    uid?: number;
+    messageId: string;
+    subject: string;
+}
+
+// Fragments of a search hit with the matched terms in <mark> tags; the rest is HTML-escaped
+export interface SearchHighlight {
+    subject?: string[];
+    body?: string[];
+}
+
+export interface EmailSearchHit extends IndexedEmailWithCategory {
+    _score?: number | null;
+    highlight?: SearchHighlight;
+}
+
 export interface EmailSearchResult {
     total: number;
-    hits: IndexedEmail[];
+    hits: EmailSearchHit[];
+}
+
+export interface EmailThread {
+    threadId: string;
+    subject: string;
+    messageCount: number;
+    participants: string[];
+    messages: IndexedEmail[];
 }
 
 export type CategoryLabel = 'INTERESTED' | 'MEETING_BOOKED' | 'NOT_INTERESTED' | 'SPAM' | 'OUT_OF_OFFICE';
@@ -124,6 +342,23 @@ export interface ReplyGenerationOptions {
     includeOriginalEmail?: boolean;
 }
 
+// Counters of the email pipeline since the process started
+export interface PipelineStats {
+    since: Date;
+    received: number;
+    categorized: number;
+    indexed: number;
+    flagsChanged: number;
+    deleted: number;
+    categories: Partial<Record<CategoryLabel, number>>;
+    accounts: Record<string, {
+        received: number;
+        indexed: number;
+        lastReceivedAt?: Date;
+        stateChanges: number;
+    }>;
+}
+
 // Extend IndexedEmail to include categorization
 export interface IndexedEmailWithCategory extends IndexedEmail {
     category?: EmailCategory;
@@ -0,0 +1,26 @@
+/**
+ * Error the API reports to the caller as-is (bad input, missing resource, unavailable
+ * feature), carrying the HTTP status it should answer with
+ */
+export class RequestError extends Error {
+    statusCode: number;
+
+    constructor(message: string, statusCode: number = 400) {
+        super(message);
+        this.name = 'RequestError';
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Credentials were rejected. Carries the same `source` marker node-imap sets on
+ * its login errors, so both are treated alike when deciding whether to retry
+ */
+export class AuthenticationError extends Error {
+    source: string = 'authentication';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthenticationError';
+    }
+}
@@ -0,0 +1,59 @@
+import sanitizeHtml from 'sanitize-html';
+
+// CSS values may not contain url() or expression(), so styles cannot load remote content
+const SAFE_STYLE_VALUE = [/^[^()]*$/, /^rgba?\([\d\s.,%]+\)$/];
+
+const ALLOWED_STYLES = [
+    'color', 'background-color', 'text-align', 'text-decoration', 'vertical-align', 'display',
+    'font-size', 'font-weight', 'font-style', 'font-family', 'line-height',
+    'width', 'height', 'max-width', 'min-width',
+    'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+    'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+    'border', 'border-top', 'border-right', 'border-bottom', 'border-left', 'border-collapse', 'border-radius'
+];
+
+/**
+ * Sanitize an email's HTML body for display: scripts, event handlers, forms and
+ * embedded content are dropped. Inline `cid:` images are pointed at the given URLs,
+ * and remote image sources are moved to `data-remote-src`, so nothing is loaded
+ * from the sender's servers until the reader chooses to.
+ */
+export function sanitizeEmailHtml(html: string, cidUrls: Map<string, string> = new Map()): string {
+    return sanitizeHtml(html, {
+        allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'font', 'center', 'span'],
+        allowedAttributes: {
+            '*': ['style', 'align', 'valign', 'width', 'height', 'bgcolor', 'color', 'dir', 'title'],
+            a: ['href', 'name', 'target', 'rel'],
+            img: ['src', 'alt', 'data-remote-src'],
+            font: ['face', 'size'],
+            td: ['colspan', 'rowspan'],
+            th: ['colspan', 'rowspan']
+        },
+        allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+        allowedSchemesByTag: {
+            img: ['data']
+        },
+        allowedStyles: {
+            '*': Object.fromEntries(ALLOWED_STYLES.map(property => [property, SAFE_STYLE_VALUE]))
+        },
+        transformTags: {
+            a: (tagName, attribs) => ({
+                tagName,
+                attribs: { ...attribs, target: '_blank', rel: 'noopener noreferrer' }
+            }),
+            img: (tagName, attribs) => {
+                // A data-remote-src written by the sender is dropped, only our own is trusted
+                const { src = '', 'data-remote-src': _senderValue, ...rest } = attribs;
+
+                if (/^cid:/i.test(src)) {
+                    const url = cidUrls.get(src.slice(4).replace(/^<|>$/g, ''));
+                    return { tagName, attribs: url ? { ...rest, src: url } : rest };
+                }
+                if (/^https?:/i.test(src)) {
+                    return { tagName, attribs: { ...rest, 'data-remote-src': src } };
+                }
+                return { tagName, attribs: /^data:image\//i.test(src) ? { ...rest, src } : rest };
+            }
+        }
+    });
+}
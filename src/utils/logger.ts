@@ -1,10 +1,24 @@
 import winston from 'winston';
+import { isSecretKey, redactSecrets, REDACTED } from './redact';
+
+// Masks credentials in every log line, whichever code path produced it
+const redactFormat = winston.format((info) => {
+    for (const key of Object.keys(info)) {
+        if (isSecretKey(key)) {
+            info[key] = REDACTED;
+        } else {
+            info[key] = redactSecrets(info[key]);
+        }
+    }
+    return info;
+});
 
 export const logger = winston.createLogger({
     level: 'info',
     format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
+        redactFormat(),
         winston.format.json()
     ),
     defaultMeta: { service: 'imap-sync' },
@@ -0,0 +1,40 @@
+/**
+ * Runs async tasks with at most `concurrency` of them in flight; the rest wait in order
+ */
+export class ProcessingQueue {
+    private concurrency: number;
+    private active: number = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(concurrency: number) {
+        this.concurrency = Math.max(1, concurrency);
+    }
+
+    /**
+     * Tasks running or waiting for a slot
+     */
+    get size(): number {
+        return this.active + this.waiting.length;
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.concurrency) {
+            // The finishing task hands its slot over without releasing it, so a task
+            // queued in the meantime cannot take it first
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.active++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
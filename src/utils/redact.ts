@@ -0,0 +1,70 @@
+import type { RequestHandler } from 'express';
+
+export const REDACTED = '[REDACTED]';
+
+// Property names whose values are always secret, compared case-insensitively
+const SECRET_KEYS = new Set([
+    'password', 'pass', 'secret', 'clientsecret', 'client_secret', 'refreshtoken', 'refresh_token',
+    'accesstoken', 'access_token', 'xoauth', 'xoauth2', 'authorization', 'masterkey', 'smtppassword'
+]);
+
+// Secrets that can end up inside free text, such as error messages or request dumps
+const SECRET_TEXT_PATTERNS: [RegExp, string][] = [
+    [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, `$1${REDACTED}`],
+    [/(AUTHENTICATE\s+XOAUTH2?\s+)\S+/gi, `$1${REDACTED}`],
+    [/\b(password|client_secret|refresh_token|access_token)=[^&\s"']+/gi, `$1=${REDACTED}`]
+];
+
+export function isSecretKey(key: string): boolean {
+    return SECRET_KEYS.has(key.toLowerCase());
+}
+
+export function redactText(text: string): string {
+    return SECRET_TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Deep copy of a value with secret properties masked and secret-looking text scrubbed
+ */
+export function redactSecrets<T>(value: T, seen: WeakSet<object> = new WeakSet()): T {
+    if (typeof value === 'string') {
+        return redactText(value) as unknown as T;
+    }
+    if (!value || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+        return value;
+    }
+    if (seen.has(value as unknown as object)) {
+        return value;
+    }
+    seen.add(value as unknown as object);
+
+    if (Array.isArray(value)) {
+        return value.map(item => redactSecrets(item, seen)) as unknown as T;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value as Record<string, any>)) {
+        result[key] = isSecretKey(key) && item !== undefined && item !== null ? REDACTED : redactSecrets(item, seen);
+    }
+    if (value instanceof Error) {
+        result.message = redactText(value.message);
+        if (value.stack) {
+            result.stack = redactText(value.stack);
+        }
+    }
+    return result as T;
+}
+
+/**
+ * Express middleware masking secrets in JSON responses of routes under `paths` (accounts,
+ * configuration, status) and in every error response. Other payloads, email content in
+ * particular, are sent as they are, so mail that mentions a password is not altered.
+ */
+export function redactResponses(paths: string[]): RequestHandler {
+    return (req, res, next) => {
+        const redactRoute = paths.some(prefix => req.path === prefix || req.path.startsWith(`${prefix}/`));
+        const json = res.json.bind(res);
+        res.json = (body: any) => json(redactRoute || res.statusCode >= 400 ? redactSecrets(body) : body);
+        next();
+    };
+}
@@ -0,0 +1,259 @@
+import { CategoryLabel, SearchExpression, SearchTextField } from '../types';
+import { RequestError } from './errors';
+
+const CATEGORIES: CategoryLabel[] = ['INTERESTED', 'MEETING_BOOKED', 'NOT_INTERESTED', 'SPAM', 'OUT_OF_OFFICE'];
+
+const IS_VALUES: Record<string, { flag: string; present: boolean }> = {
+    read: { flag: '\\Seen', present: true },
+    unread: { flag: '\\Seen', present: false },
+    starred: { flag: '\\Flagged', present: true },
+    unstarred: { flag: '\\Flagged', present: false }
+};
+
+const TEXT_FIELDS: SearchTextField[] = ['from', 'to', 'subject'];
+const OPERATORS = [...TEXT_FIELDS, 'category', 'is', 'has', 'before', 'after', 'folder', 'account'];
+
+/**
+ * Parse a Gmail-style search string:
+ * - words and "quoted phrases" match subject, body, addresses and attachment text,
+ * - `from:`, `to:` and `subject:` match one field (`subject:"weekly report"`),
+ * - `category:interested`, `is:read|unread|starred|unstarred`, `has:attachment`,
+ *   `before:` and `after:` (YYYY/MM/DD or YYYY-MM-DD), `folder:` and `account:` filter,
+ * - terms are ANDed; `OR` (uppercase) joins alternatives, `-` negates a term and
+ *   parentheses group, e.g. `from:alice (invoice OR receipt) -is:read`.
+ * `word:` with an unknown operator is searched as text. Returns null for a blank string and
+ * throws a RequestError naming the problem and where it is for a malformed one.
+ */
+export function parseSearchQuery(input: string): SearchExpression | null {
+    return new SearchQueryParser(input).parse();
+}
+
+class SearchQueryParser {
+    private input: string;
+    private pos: number = 0;
+
+    constructor(input: string) {
+        this.input = input;
+    }
+
+    parse(): SearchExpression | null {
+        const clauses = this.parseSequence(false);
+        return clauses.length > 0 ? SearchQueryParser.and(clauses) : null;
+    }
+
+    /**
+     * Terms up to the end of the input, or of the enclosing group
+     */
+    private parseSequence(inGroup: boolean): SearchExpression[] {
+        const clauses: SearchExpression[] = [];
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd()) {
+                break;
+            }
+            if (this.peek() === ')') {
+                if (!inGroup) {
+                    this.fail('unexpected ")" without a matching "("');
+                }
+                break;
+            }
+            if (this.atKeyword('OR')) {
+                this.fail('"OR" needs a term on both sides');
+            }
+            if (this.atKeyword('AND')) {
+                // Terms are ANDed anyway
+                this.pos += 3;
+                continue;
+            }
+            clauses.push(this.parseOr());
+        }
+
+        return clauses;
+    }
+
+    private parseOr(): SearchExpression {
+        const clauses = [this.parseUnary()];
+
+        while (true) {
+            const before = this.pos;
+            this.skipWhitespace();
+            if (!this.atKeyword('OR')) {
+                this.pos = before;
+                break;
+            }
+
+            const orAt = this.pos;
+            this.pos += 2;
+            this.skipWhitespace();
+            if (this.atEnd() || this.peek() === ')' || this.atKeyword('OR')) {
+                this.fail('"OR" needs a term on both sides', orAt);
+            }
+            clauses.push(this.parseUnary());
+        }
+
+        return clauses.length === 1 ? clauses[0] : { type: 'or', clauses };
+    }
+
+    private parseUnary(): SearchExpression {
+        const start = this.pos;
+
+        if (this.peek() === '-') {
+            this.pos++;
+            if (this.atEnd() || /[\s)]/.test(this.peek())) {
+                this.fail('"-" must be followed by a term, e.g. -category:spam', start);
+            }
+            return { type: 'not', clause: this.parseUnary() };
+        }
+
+        if (this.peek() === '(') {
+            this.pos++;
+            const clauses = this.parseSequence(true);
+            if (this.peek() !== ')') {
+                this.fail('missing ")" to close this group', start);
+            }
+            this.pos++;
+            if (clauses.length === 0) {
+                this.fail('empty parentheses', start);
+            }
+            return SearchQueryParser.and(clauses);
+        }
+
+        return this.parseTerm();
+    }
+
+    private parseTerm(): SearchExpression {
+        const start = this.pos;
+
+        if (this.peek() === '"') {
+            return { type: 'text', value: this.readQuoted(), phrase: true };
+        }
+
+        const operatorMatch = /^([a-zA-Z]+):/.exec(this.input.slice(this.pos));
+        const operator = operatorMatch?.[1].toLowerCase();
+        if (!operatorMatch || !operator || !OPERATORS.includes(operator)) {
+            return { type: 'text', value: this.readBare(), phrase: false };
+        }
+
+        this.pos += operatorMatch[0].length;
+        if (this.atEnd() || /[\s)]/.test(this.peek())) {
+            this.fail(`"${operator}:" needs a value`, start);
+        }
+        if (this.peek() === '(') {
+            this.fail(`"${operator}:" takes a single value; write (${operator}:a OR ${operator}:b) instead`, start);
+        }
+
+        const quoted = this.peek() === '"';
+        const value = quoted ? this.readQuoted() : this.readBare();
+        return this.operatorExpression(operator, value, quoted, start);
+    }
+
+    private operatorExpression(operator: string, value: string, quoted: boolean, start: number): SearchExpression {
+        switch (operator) {
+            case 'from':
+            case 'to':
+            case 'subject':
+                return { type: 'text', field: operator as SearchTextField, value, phrase: quoted };
+
+            case 'category': {
+                const category = value.trim().toUpperCase().replace(/[\s-]+/g, '_') as CategoryLabel;
+                if (!CATEGORIES.includes(category)) {
+                    this.fail(`unknown category "${value}"; use one of ${CATEGORIES.map(name => name.toLowerCase()).join(', ')}`, start);
+                }
+                return { type: 'category', category };
+            }
+
+            case 'is': {
+                const flag = IS_VALUES[value.toLowerCase()];
+                if (!flag) {
+                    this.fail(`unknown value "${value}" for "is:"; use one of ${Object.keys(IS_VALUES).join(', ')}`, start);
+                }
+                return { type: 'flag', ...flag };
+            }
+
+            case 'has':
+                if (value.toLowerCase() !== 'attachment') {
+                    this.fail(`unknown value "${value}" for "has:"; only has:attachment is supported`, start);
+                }
+                return { type: 'hasAttachment' };
+
+            case 'before':
+            case 'after': {
+                const date = SearchQueryParser.parseDate(value);
+                if (!date) {
+                    this.fail(`invalid date "${value}" for "${operator}:"; use YYYY/MM/DD or YYYY-MM-DD`, start);
+                }
+                return operator === 'before' ? { type: 'date', before: date } : { type: 'date', after: date };
+            }
+
+            case 'folder':
+                return { type: 'folder', folder: value };
+
+            default:
+                return { type: 'account', accountName: value };
+        }
+    }
+
+    private readQuoted(): string {
+        const start = this.pos;
+        const end = this.input.indexOf('"', start + 1);
+        if (end === -1) {
+            this.fail('missing closing quote', start);
+        }
+        const value = this.input.slice(start + 1, end);
+        if (value.trim() === '') {
+            this.fail('empty quotes', start);
+        }
+        this.pos = end + 1;
+        return value;
+    }
+
+    private readBare(): string {
+        const start = this.pos;
+        while (!this.atEnd() && !/[\s()"]/.test(this.peek())) {
+            this.pos++;
+        }
+        return this.input.slice(start, this.pos);
+    }
+
+    private atKeyword(keyword: string): boolean {
+        return this.input.startsWith(keyword, this.pos)
+            && (this.pos + keyword.length === this.input.length || /[\s()]/.test(this.input[this.pos + keyword.length]));
+    }
+
+    private skipWhitespace(): void {
+        while (!this.atEnd() && /\s/.test(this.peek())) {
+            this.pos++;
+        }
+    }
+
+    private peek(): string {
+        return this.input[this.pos];
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.input.length;
+    }
+
+    private fail(reason: string, at: number = this.pos): never {
+        throw new RequestError(`Invalid search query: ${reason} (at character ${at + 1})`);
+    }
+
+    private static and(clauses: SearchExpression[]): SearchExpression {
+        return clauses.length === 1 ? clauses[0] : { type: 'and', clauses };
+    }
+
+    /**
+     * A calendar date as UTC midnight, or null when it is not one
+     */
+    private static parseDate(value: string): Date | null {
+        const match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(value);
+        if (!match) {
+            return null;
+        }
+        const [year, month, day] = match.slice(1).map(Number);
+        const date = new Date(Date.UTC(year, month - 1, day));
+        // Date.UTC rolls invalid days over, e.g. February 30th into March
+        return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+    }
+}
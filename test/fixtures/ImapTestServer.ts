@@ -0,0 +1,852 @@
+import net from 'net';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const CRLF = '\r\n';
+const DELIMITER = '/';
+const SYSTEM_FLAGS = ['\\Seen', '\\Answered', '\\Flagged', '\\Deleted', '\\Draft'];
+const SEARCH_FLAG_KEYS: Record<string, { flag: string; set: boolean }> = {
+    SEEN: { flag: '\\Seen', set: true },
+    UNSEEN: { flag: '\\Seen', set: false },
+    FLAGGED: { flag: '\\Flagged', set: true },
+    UNFLAGGED: { flag: '\\Flagged', set: false },
+    ANSWERED: { flag: '\\Answered', set: true },
+    UNANSWERED: { flag: '\\Answered', set: false },
+    DELETED: { flag: '\\Deleted', set: true },
+    UNDELETED: { flag: '\\Deleted', set: false },
+    DRAFT: { flag: '\\Draft', set: true },
+    UNDRAFT: { flag: '\\Draft', set: false }
+};
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface TestMessage {
+    uid: number;
+    flags: string[];
+    internalDate: Date;
+    source: Buffer;
+}
+
+export interface ImapTestServerOptions {
+    // Login name and password pairs; defaults to a single test user
+    users?: Record<string, string>;
+    // Defaults to IMAP4rev1, IDLE and UIDPLUS; leave out IDLE to test polling
+    capabilities?: string[];
+}
+
+interface TestMailbox {
+    path: string;
+    specialUse?: string;
+    uidValidity: number;
+    uidNext: number;
+    messages: TestMessage[];
+}
+
+// Arguments of a command: atoms and quoted strings, with parenthesized lists as nested arrays
+type Token = string | Token[];
+
+class CommandError extends Error {
+    constructor(public readonly status: 'NO' | 'BAD', message: string) {
+        super(message);
+    }
+}
+
+/**
+ * A scriptable in-process IMAP server for integration tests. It implements the part of
+ * IMAP4rev1 the sync manager relies on: LOGIN, LIST, SELECT/EXAMINE, STATUS, FETCH,
+ * SEARCH, STORE, EXPUNGE (and UID EXPUNGE), APPEND, IDLE and NOOP, all in memory.
+ * Tests deliver, flag and expunge messages through its methods, and connected clients
+ * see those changes like they would on a real server: pushed while they IDLE, and
+ * otherwise with the response to their next command.
+ * BODYSTRUCTURE describes every message as a single text/plain part, and ENVELOPE
+ * carries only the date, subject and message IDs; clients are expected to parse the source.
+ */
+export class ImapTestServer {
+    public readonly users: Record<string, string>;
+    public readonly capabilities: string[];
+    // Names of the commands received, in order (e.g. "LOGIN", "UID FETCH", "IDLE")
+    public readonly commandLog: string[] = [];
+    private mailboxes: Map<string, TestMailbox> = new Map();
+    private sessions: Set<ImapSession> = new Set();
+    private server: net.Server;
+    private nextUidValidity: number = Math.floor(Date.now() / 1000);
+
+    constructor(options: ImapTestServerOptions = {}) {
+        this.users = options.users || { 'user@example.com': 'secret' };
+        this.capabilities = options.capabilities || ['IMAP4rev1', 'IDLE', 'UIDPLUS'];
+        this.server = net.createServer(socket => {
+            const session = new ImapSession(this, socket);
+            this.sessions.add(session);
+            socket.once('close', () => this.sessions.delete(session));
+        });
+        this.addMailbox('INBOX');
+    }
+
+    /**
+     * Start listening on a free local port, which is returned
+     */
+    listen(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(0, '127.0.0.1', () => resolve(this.port));
+        });
+    }
+
+    get port(): number {
+        return (this.server.address() as net.AddressInfo).port;
+    }
+
+    async close(): Promise<void> {
+        this.dropConnections();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Cut every client connection without a BYE, like a network failure
+     */
+    dropConnections(): void {
+        for (const session of this.sessions) {
+            session.destroy();
+        }
+        this.sessions.clear();
+    }
+
+    get connectionCount(): number {
+        return this.sessions.size;
+    }
+
+    get idlingSessions(): number {
+        return [...this.sessions].filter(session => session.isIdling).length;
+    }
+
+    addMailbox(mailboxPath: string, specialUse?: string): void {
+        if (this.mailboxes.has(mailboxPath)) {
+            return;
+        }
+        this.mailboxes.set(mailboxPath, {
+            path: mailboxPath,
+            specialUse,
+            uidValidity: this.nextUidValidity++,
+            uidNext: 1,
+            messages: []
+        });
+    }
+
+    /**
+     * Append a message to a mailbox, as if it just arrived; returns its UID
+     */
+    deliver(mailboxPath: string, source: string | Buffer, options: { flags?: string[]; date?: Date } = {}): number {
+        const mailbox = this.requireMailbox(mailboxPath);
+        const message: TestMessage = {
+            uid: mailbox.uidNext++,
+            flags: [...(options.flags || [])],
+            internalDate: options.date || new Date(),
+            source: Buffer.isBuffer(source) ? source : Buffer.from(source.replace(/\r?\n/g, CRLF), 'utf8')
+        };
+        mailbox.messages.push(message);
+        this.notifyChanged(mailbox);
+        return message.uid;
+    }
+
+    /**
+     * Deliver every .eml file of a directory, in file name order; returns their UIDs
+     */
+    async seedFromDirectory(mailboxPath: string, directory: string): Promise<number[]> {
+        const files = (await fs.readdir(directory)).filter(file => file.endsWith('.eml')).sort();
+        const uids: number[] = [];
+        for (const file of files) {
+            uids.push(this.deliver(mailboxPath, await fs.readFile(path.join(directory, file), 'utf8')));
+        }
+        return uids;
+    }
+
+    getMessages(mailboxPath: string): TestMessage[] {
+        return this.requireMailbox(mailboxPath).messages.map(message => ({ ...message, flags: [...message.flags] }));
+    }
+
+    /**
+     * Replace a message's flags, as another mail client would
+     */
+    setFlags(mailboxPath: string, uid: number, flags: string[]): void {
+        const mailbox = this.requireMailbox(mailboxPath);
+        const message = mailbox.messages.find(m => m.uid === uid);
+        if (!message) {
+            throw new Error(`No message with UID ${uid} in ${mailboxPath}`);
+        }
+        message.flags = [...flags];
+        this.notifyChanged(mailbox);
+    }
+
+    /**
+     * Remove messages for good, as another mail client would
+     */
+    expunge(mailboxPath: string, uids: number[]): void {
+        const mailbox = this.requireMailbox(mailboxPath);
+        mailbox.messages = mailbox.messages.filter(message => !uids.includes(message.uid));
+        this.notifyChanged(mailbox);
+    }
+
+    /**
+     * Give a mailbox a new UIDVALIDITY and renumber its messages from firstUid, like a
+     * server whose mailbox was rebuilt. Clients that have it selected are disconnected.
+     */
+    resetUidValidity(mailboxPath: string, firstUid: number = 1): number {
+        const mailbox = this.requireMailbox(mailboxPath);
+        mailbox.uidValidity = this.nextUidValidity++;
+        mailbox.messages.forEach((message, index) => {
+            message.uid = firstUid + index;
+        });
+        mailbox.uidNext = firstUid + mailbox.messages.length;
+
+        for (const session of this.sessions) {
+            if (session.selectedMailbox === mailbox) {
+                session.destroy();
+                this.sessions.delete(session);
+            }
+        }
+        return mailbox.uidValidity;
+    }
+
+    // Used by sessions
+    findMailbox(mailboxPath: string): TestMailbox | undefined {
+        // INBOX is case-insensitive
+        return this.mailboxes.get(/^inbox$/i.test(mailboxPath) ? 'INBOX' : mailboxPath);
+    }
+
+    listMailboxes(): TestMailbox[] {
+        return [...this.mailboxes.values()];
+    }
+
+    notifyChanged(mailbox: TestMailbox, except?: ImapSession): void {
+        for (const session of this.sessions) {
+            if (session !== except && session.selectedMailbox === mailbox) {
+                session.mailboxChanged();
+            }
+        }
+    }
+
+    private requireMailbox(mailboxPath: string): TestMailbox {
+        const mailbox = this.findMailbox(mailboxPath);
+        if (!mailbox) {
+            throw new Error(`No mailbox ${mailboxPath}`);
+        }
+        return mailbox;
+    }
+}
+
+/**
+ * One client connection. The session keeps its own view of the selected mailbox (the UIDs
+ * in sequence order and their flags as last reported) and reports the difference to the
+ * mailbox as EXPUNGE, EXISTS and FETCH responses whenever it may send unsolicited updates.
+ */
+class ImapSession {
+    public selectedMailbox?: TestMailbox;
+    private server: ImapTestServer;
+    private socket: net.Socket;
+    // Received bytes as latin1, so string lengths are byte counts for literals
+    private buffer: string = '';
+    // A command whose literal is being received: the line so far and the literals read
+    private pendingCommand?: { line: string; literals: Buffer[]; literalSize: number };
+    private user?: string;
+    private readOnly: boolean = false;
+    private view: number[] = [];
+    private reportedFlags: Map<number, string> = new Map();
+    private idleTag?: string;
+
+    constructor(server: ImapTestServer, socket: net.Socket) {
+        this.server = server;
+        this.socket = socket;
+        socket.on('data', data => this.receive(data.toString('latin1')));
+        // Clients that vanish mid-response are expected in tests that drop connections
+        socket.on('error', () => undefined);
+        this.send(`* OK [CAPABILITY ${server.capabilities.join(' ')}] IMAP test server ready`);
+    }
+
+    get isIdling(): boolean {
+        return this.idleTag !== undefined;
+    }
+
+    destroy(): void {
+        this.socket.destroy();
+    }
+
+    mailboxChanged(): void {
+        if (this.isIdling) {
+            this.reportChanges();
+        }
+    }
+
+    private receive(data: string): void {
+        this.buffer += data;
+
+        while (true) {
+            const pending = this.pendingCommand;
+            if (pending && pending.literalSize > 0) {
+                if (this.buffer.length < pending.literalSize) {
+                    return;
+                }
+                pending.literals.push(Buffer.from(this.buffer.slice(0, pending.literalSize), 'latin1'));
+                this.buffer = this.buffer.slice(pending.literalSize);
+                pending.literalSize = 0;
+                continue;
+            }
+
+            const end = this.buffer.indexOf(CRLF);
+            if (end < 0) {
+                return;
+            }
+            const line = Buffer.from(this.buffer.slice(0, end), 'latin1').toString('utf8');
+            this.buffer = this.buffer.slice(end + CRLF.length);
+
+            // A literal announced at the end of the line follows once the client is told to go on
+            const literal = /\{(\d+)\}$/.exec(line);
+            if (literal && !this.isIdling) {
+                this.pendingCommand = {
+                    line: (pending?.line || '') + line.slice(0, literal.index),
+                    literals: pending?.literals || [],
+                    literalSize: parseInt(literal[1])
+                };
+                this.send('+ Ready for literal data');
+                continue;
+            }
+
+            this.pendingCommand = undefined;
+            this.handleLine((pending?.line || '') + line, pending?.literals || []);
+        }
+    }
+
+    private handleLine(line: string, literals: Buffer[]): void {
+        if (this.isIdling) {
+            if (line.toUpperCase() === 'DONE') {
+                this.send(`${this.idleTag} OK IDLE terminated`);
+                this.idleTag = undefined;
+            } else {
+                this.send(`* BAD Expected DONE`);
+            }
+            return;
+        }
+
+        const match = /^(\S+) (UID )?(\S+)(?: (.*))?$/i.exec(line);
+        if (!match) {
+            this.send(`* BAD Invalid command`);
+            return;
+        }
+
+        const [, tag, uidPrefix, name, rest = ''] = match;
+        const byUid = !!uidPrefix;
+        const command = name.toUpperCase();
+        this.server.commandLog.push(byUid ? `UID ${command}` : command);
+
+        try {
+            if (literals.length > 0 && command !== 'APPEND') {
+                throw new CommandError('BAD', `Literals are only supported in APPEND`);
+            }
+            const args = tokenize(rest);
+            const completion = command === 'APPEND'
+                ? this.append(args, literals)
+                : this.execute(tag, command, args, byUid);
+            if (completion === null) {
+                return;
+            }
+            // Unsolicited EXPUNGE must not interrupt FETCH, STORE and SEARCH by sequence number
+            if (byUid || !['FETCH', 'STORE', 'SEARCH'].includes(command)) {
+                this.reportChanges();
+            }
+            this.send(`${tag} OK ${completion}`);
+        } catch (error) {
+            if (error instanceof CommandError) {
+                this.send(`${tag} ${error.status} ${error.message}`);
+            } else {
+                this.send(`${tag} BAD ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    /**
+     * Run a command and return the text of its tagged OK, or null when the command answers itself
+     */
+    private execute(tag: string, command: string, args: Token[], byUid: boolean): string | null {
+        if (byUid && !['FETCH', 'SEARCH', 'STORE', 'EXPUNGE'].includes(command)) {
+            throw new CommandError('BAD', `UID ${command} is not supported`);
+        }
+
+        switch (command) {
+            case 'CAPABILITY':
+                this.send(`* CAPABILITY ${this.server.capabilities.join(' ')}`);
+                return 'CAPABILITY completed';
+            case 'NOOP':
+                return 'NOOP completed';
+            case 'LOGOUT':
+                this.send('* BYE Logging out');
+                this.send(`${tag} OK LOGOUT completed`);
+                this.socket.end();
+                return null;
+            case 'LOGIN':
+                return this.login(args);
+        }
+
+        if (!this.user) {
+            throw new CommandError('BAD', `${command} requires authentication`);
+        }
+
+        switch (command) {
+            case 'LIST':
+                return this.list(args);
+            case 'SELECT':
+            case 'EXAMINE':
+                return this.select(args, command === 'EXAMINE');
+            case 'STATUS':
+                return this.status(args);
+            case 'IDLE':
+                if (!this.server.capabilities.includes('IDLE')) {
+                    throw new CommandError('BAD', 'IDLE is not supported');
+                }
+                this.idleTag = tag;
+                this.send('+ idling');
+                this.reportChanges();
+                return null;
+        }
+
+        const mailbox = this.selectedMailbox;
+        if (!mailbox) {
+            throw new CommandError('BAD', `${command} requires a selected mailbox`);
+        }
+
+        switch (command) {
+            case 'CLOSE':
+                if (!this.readOnly) {
+                    this.removeMessages(mailbox, message => message.flags.includes('\\Deleted'), false);
+                }
+                this.selectedMailbox = undefined;
+                return 'CLOSE completed';
+            case 'FETCH':
+                this.fetch(mailbox, args, byUid);
+                return 'FETCH completed';
+            case 'SEARCH':
+                this.search(mailbox, args, byUid);
+                return 'SEARCH completed';
+            case 'STORE':
+                this.store(mailbox, args, byUid);
+                return 'STORE completed';
+            case 'EXPUNGE':
+                this.expunge(mailbox, args, byUid);
+                return 'EXPUNGE completed';
+            default:
+                throw new CommandError('BAD', `${command} is not supported`);
+        }
+    }
+
+    private login(args: Token[]): string {
+        const [user, password] = args;
+        if (typeof user !== 'string' || typeof password !== 'string') {
+            throw new CommandError('BAD', 'LOGIN expects a user name and a password');
+        }
+        if (this.server.users[user] !== password) {
+            throw new CommandError('NO', '[AUTHENTICATIONFAILED] Invalid credentials');
+        }
+        this.user = user;
+        return 'LOGIN completed';
+    }
+
+    /**
+     * APPEND mailbox [(flags)] ["date"] {size}; the literal holds the message
+     */
+    private append(args: Token[], literals: Buffer[]): string {
+        if (!this.user) {
+            throw new CommandError('BAD', 'APPEND requires authentication');
+        }
+        const [name, ...options] = args;
+        const mailbox = this.server.findMailbox(String(name ?? ''));
+        if (!mailbox) {
+            throw new CommandError('NO', '[TRYCREATE] Mailbox does not exist');
+        }
+        if (literals.length !== 1) {
+            throw new CommandError('BAD', 'APPEND expects the message as a literal');
+        }
+
+        const flags = options.find((option): option is Token[] => Array.isArray(option)) || [];
+        const date = options.find((option): option is string => typeof option === 'string');
+        const uid = this.server.deliver(mailbox.path, literals[0], {
+            flags: flags.map(String),
+            date: date && !isNaN(Date.parse(date)) ? new Date(date) : undefined
+        });
+
+        return this.server.capabilities.includes('UIDPLUS')
+            ? `[APPENDUID ${mailbox.uidValidity} ${uid}] APPEND completed`
+            : 'APPEND completed';
+    }
+
+    private list(args: Token[]): string {
+        const [, pattern] = args;
+        if (pattern === '') {
+            // The hierarchy delimiter, which clients ask for right after logging in
+            this.send(`* LIST (\\Noselect) "${DELIMITER}" ""`);
+            return 'LIST completed';
+        }
+
+        const matcher = new RegExp(`^${String(pattern).split('').map(char =>
+            char === '*' ? '.*' : char === '%' ? `[^${DELIMITER}]*` : char.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('')}$`, 'i');
+        const mailboxes = this.server.listMailboxes();
+        for (const mailbox of mailboxes) {
+            if (!matcher.test(mailbox.path)) {
+                continue;
+            }
+            const hasChildren = mailboxes.some(other => other.path.startsWith(mailbox.path + DELIMITER));
+            const attributes = [hasChildren ? '\\HasChildren' : '\\HasNoChildren', ...(mailbox.specialUse ? [mailbox.specialUse] : [])];
+            this.send(`* LIST (${attributes.join(' ')}) "${DELIMITER}" ${quote(mailbox.path)}`);
+        }
+        return 'LIST completed';
+    }
+
+    private select(args: Token[], readOnly: boolean): string {
+        const mailbox = this.server.findMailbox(String(args[0] ?? ''));
+        this.selectedMailbox = undefined;
+        if (!mailbox) {
+            throw new CommandError('NO', 'Mailbox does not exist');
+        }
+
+        this.selectedMailbox = mailbox;
+        this.readOnly = readOnly;
+        this.view = mailbox.messages.map(message => message.uid);
+        this.reportedFlags = new Map(mailbox.messages.map(message => [message.uid, message.flags.join(' ')]));
+
+        this.send(`* FLAGS (${SYSTEM_FLAGS.join(' ')})`);
+        this.send(`* OK [PERMANENTFLAGS (${SYSTEM_FLAGS.join(' ')} \\*)] Flags permitted`);
+        this.send(`* ${mailbox.messages.length} EXISTS`);
+        this.send('* 0 RECENT');
+        this.send(`* OK [UIDVALIDITY ${mailbox.uidValidity}] UIDs valid`);
+        this.send(`* OK [UIDNEXT ${mailbox.uidNext}] Predicted next UID`);
+        return `[${readOnly ? 'READ-ONLY' : 'READ-WRITE'}] ${readOnly ? 'EXAMINE' : 'SELECT'} completed`;
+    }
+
+    private status(args: Token[]): string {
+        const [name, items] = args;
+        const mailbox = this.server.findMailbox(String(name ?? ''));
+        if (!mailbox) {
+            throw new CommandError('NO', 'Mailbox does not exist');
+        }
+        if (!Array.isArray(items)) {
+            throw new CommandError('BAD', 'STATUS expects a list of items');
+        }
+
+        const values: Record<string, number> = {
+            MESSAGES: mailbox.messages.length,
+            RECENT: 0,
+            UIDNEXT: mailbox.uidNext,
+            UIDVALIDITY: mailbox.uidValidity,
+            UNSEEN: mailbox.messages.filter(message => !message.flags.includes('\\Seen')).length
+        };
+        const reported = items.map(item => {
+            const key = String(item).toUpperCase();
+            if (values[key] === undefined) {
+                throw new CommandError('BAD', `Unknown STATUS item ${key}`);
+            }
+            return `${key} ${values[key]}`;
+        });
+        this.send(`* STATUS ${quote(mailbox.path)} (${reported.join(' ')})`);
+        return 'STATUS completed';
+    }
+
+    private fetch(mailbox: TestMailbox, args: Token[], byUid: boolean): void {
+        const [set, items] = args;
+        const requested = (Array.isArray(items) ? items : [items]).map(item => String(item).toUpperCase());
+        const messages = this.resolveSet(mailbox, String(set), byUid);
+
+        for (const [seqno, message] of messages) {
+            const parts: (string | Buffer)[] = [];
+            let seen = false;
+
+            if (byUid && !requested.includes('UID')) {
+                parts.push(`UID ${message.uid}`);
+            }
+            for (const item of requested) {
+                const body = /^BODY(\.PEEK)?\[(HEADER|TEXT)?\]$/.exec(item);
+                if (item === 'UID') {
+                    parts.push(`UID ${message.uid}`);
+                } else if (item === 'FLAGS') {
+                    // Reported with the other items once the \Seen a BODY[] fetch sets is known
+                    continue;
+                } else if (item === 'INTERNALDATE') {
+                    parts.push(`INTERNALDATE "${formatInternalDate(message.internalDate)}"`);
+                } else if (item === 'RFC822.SIZE') {
+                    parts.push(`RFC822.SIZE ${message.source.length}`);
+                } else if (item === 'ENVELOPE') {
+                    parts.push(`ENVELOPE ${envelope(message.source)}`);
+                } else if (item === 'BODYSTRUCTURE' || item === 'BODY') {
+                    const lines = message.source.toString('utf8').split(CRLF).length;
+                    parts.push(`${item} ("TEXT" "PLAIN" ("CHARSET" "UTF-8") NIL NIL "7BIT" ${message.source.length} ${lines})`);
+                } else if (body) {
+                    const content = section(message.source, body[2]);
+                    seen = seen || !body[1];
+                    parts.push(Buffer.concat([Buffer.from(`BODY[${body[2] || ''}] {${content.length}}${CRLF}`), content]));
+                } else {
+                    throw new CommandError('BAD', `Unsupported FETCH item ${item}`);
+                }
+            }
+
+            if (seen && !this.readOnly && !message.flags.includes('\\Seen')) {
+                message.flags.push('\\Seen');
+                this.server.notifyChanged(mailbox, this);
+            }
+            if (requested.includes('FLAGS') || seen) {
+                parts.push(`FLAGS (${message.flags.join(' ')})`);
+                this.reportedFlags.set(message.uid, message.flags.join(' '));
+            }
+
+            this.write(Buffer.concat([
+                Buffer.from(`* ${seqno} FETCH (`),
+                ...parts.flatMap((part, index) => [Buffer.from(index > 0 ? ' ' : ''), Buffer.from(part)]),
+                Buffer.from(`)${CRLF}`)
+            ]));
+        }
+    }
+
+    private search(mailbox: TestMailbox, args: Token[], byUid: boolean): void {
+        const filters: ((message: TestMessage, seqno: number) => boolean)[] = [];
+
+        for (let i = 0; i < args.length; i++) {
+            const key = String(args[i]).toUpperCase();
+            if (key === 'ALL') {
+                continue;
+            }
+            if (key === 'UID') {
+                const uids = new Set(this.resolveSet(mailbox, String(args[++i]), true).map(([, message]) => message.uid));
+                filters.push(message => uids.has(message.uid));
+            } else if (SEARCH_FLAG_KEYS[key]) {
+                const { flag, set } = SEARCH_FLAG_KEYS[key];
+                filters.push(message => message.flags.includes(flag) === set);
+            } else if (/^[\d*:,]+$/.test(key)) {
+                const seqnos = new Set(this.resolveSet(mailbox, key, false).map(([seqno]) => seqno));
+                filters.push((_, seqno) => seqnos.has(seqno));
+            } else {
+                throw new CommandError('BAD', `Unsupported SEARCH key ${key}`);
+            }
+        }
+
+        const results = this.visibleMessages(mailbox)
+            .filter(([seqno, message]) => filters.every(filter => filter(message, seqno)))
+            .map(([seqno, message]) => byUid ? message.uid : seqno);
+        this.send(`* SEARCH${results.map(result => ` ${result}`).join('')}`);
+    }
+
+    private store(mailbox: TestMailbox, args: Token[], byUid: boolean): void {
+        if (this.readOnly) {
+            throw new CommandError('NO', 'Mailbox is read-only');
+        }
+
+        // An UNCHANGEDSINCE modifier may come before the operation; without CONDSTORE it is ignored
+        const [set, ...rest] = args;
+        const [operation, flagList] = Array.isArray(rest[0]) ? rest.slice(1) : rest;
+        const match = /^([+-]?)FLAGS(\.SILENT)?$/i.exec(String(operation));
+        if (!match) {
+            throw new CommandError('BAD', `Unsupported STORE operation ${operation}`);
+        }
+
+        const flags = (Array.isArray(flagList) ? flagList : [flagList]).map(String);
+        const [, mode, silent] = match;
+        for (const [seqno, message] of this.resolveSet(mailbox, String(set), byUid)) {
+            if (mode === '+') {
+                message.flags = [...new Set([...message.flags, ...flags])];
+            } else if (mode === '-') {
+                message.flags = message.flags.filter(flag => !flags.includes(flag));
+            } else {
+                message.flags = [...flags];
+            }
+
+            this.reportedFlags.set(message.uid, message.flags.join(' '));
+            if (!silent) {
+                this.send(`* ${seqno} FETCH (${byUid ? `UID ${message.uid} ` : ''}FLAGS (${message.flags.join(' ')}))`);
+            }
+        }
+        this.server.notifyChanged(mailbox, this);
+    }
+
+    private expunge(mailbox: TestMailbox, args: Token[], byUid: boolean): void {
+        if (this.readOnly) {
+            throw new CommandError('NO', 'Mailbox is read-only');
+        }
+        if (byUid && !this.server.capabilities.includes('UIDPLUS')) {
+            throw new CommandError('BAD', 'UID EXPUNGE requires UIDPLUS');
+        }
+
+        const uids = byUid ? new Set(this.resolveSet(mailbox, String(args[0]), true).map(([, message]) => message.uid)) : null;
+        this.removeMessages(mailbox, message => message.flags.includes('\\Deleted') && (!uids || uids.has(message.uid)), true);
+    }
+
+    private removeMessages(mailbox: TestMailbox, predicate: (message: TestMessage) => boolean, report: boolean): void {
+        mailbox.messages = mailbox.messages.filter(message => !predicate(message));
+        this.server.notifyChanged(mailbox, this);
+        if (report) {
+            this.reportChanges();
+        }
+    }
+
+    /**
+     * Messages of the session's view that still exist, with their sequence numbers
+     */
+    private visibleMessages(mailbox: TestMailbox): [number, TestMessage][] {
+        const byUid = new Map(mailbox.messages.map(message => [message.uid, message]));
+        return this.view
+            .map((uid, index): [number, TestMessage | undefined] => [index + 1, byUid.get(uid)])
+            .filter((entry): entry is [number, TestMessage] => !!entry[1]);
+    }
+
+    /**
+     * Messages matching a sequence set ("1:3,7", "5:*") of sequence numbers or UIDs
+     */
+    private resolveSet(mailbox: TestMailbox, set: string, byUid: boolean): [number, TestMessage][] {
+        const messages = this.visibleMessages(mailbox);
+        const numberOf = ([seqno, message]: [number, TestMessage]) => byUid ? message.uid : seqno;
+        const highest = messages.length > 0 ? numberOf(messages[messages.length - 1]) : 0;
+        const parse = (value: string) => {
+            if (value === '*') {
+                return highest;
+            }
+            if (!/^\d+$/.test(value)) {
+                throw new CommandError('BAD', `Invalid sequence set ${set}`);
+            }
+            return parseInt(value);
+        };
+
+        const ranges = set.split(',').map(range => {
+            const [start, end = start] = range.split(':').map(parse);
+            return [Math.min(start, end), Math.max(start, end)];
+        });
+        return messages.filter(entry => ranges.some(([start, end]) => numberOf(entry) >= start && numberOf(entry) <= end));
+    }
+
+    /**
+     * Send the changes of the selected mailbox since they were last reported
+     */
+    private reportChanges(): void {
+        const mailbox = this.selectedMailbox;
+        if (!mailbox) {
+            return;
+        }
+
+        const current = new Map(mailbox.messages.map(message => [message.uid, message]));
+        for (let index = 0; index < this.view.length;) {
+            if (current.has(this.view[index])) {
+                index++;
+                continue;
+            }
+            this.reportedFlags.delete(this.view[index]);
+            this.view.splice(index, 1);
+            this.send(`* ${index + 1} EXPUNGE`);
+        }
+
+        const known = new Set(this.view);
+        const added = mailbox.messages.filter(message => !known.has(message.uid));
+        if (added.length > 0) {
+            this.view.push(...added.map(message => message.uid));
+            added.forEach(message => this.reportedFlags.set(message.uid, message.flags.join(' ')));
+            this.send(`* ${this.view.length} EXISTS`);
+        }
+
+        this.view.forEach((uid, index) => {
+            const flags = current.get(uid)!.flags.join(' ');
+            if (this.reportedFlags.get(uid) !== flags) {
+                this.reportedFlags.set(uid, flags);
+                this.send(`* ${index + 1} FETCH (UID ${uid} FLAGS (${flags}))`);
+            }
+        });
+    }
+
+    private send(line: string): void {
+        this.write(Buffer.from(line + CRLF, 'utf8'));
+    }
+
+    private write(data: Buffer): void {
+        if (!this.socket.destroyed) {
+            this.socket.write(data);
+        }
+    }
+}
+
+/**
+ * Split command arguments into atoms, quoted strings and parenthesized lists. Brackets
+ * stay part of their atom, so "BODY.PEEK[HEADER.FIELDS (TO)]" is one token.
+ */
+function tokenize(input: string): Token[] {
+    const root: Token[] = [];
+    const stack: Token[][] = [root];
+    let i = 0;
+
+    while (i < input.length) {
+        const char = input[i];
+        const current = stack[stack.length - 1];
+
+        if (char === ' ') {
+            i++;
+        } else if (char === '(') {
+            const list: Token[] = [];
+            current.push(list);
+            stack.push(list);
+            i++;
+        } else if (char === ')') {
+            if (stack.length === 1) {
+                throw new CommandError('BAD', 'Unbalanced parentheses');
+            }
+            stack.pop();
+            i++;
+        } else if (char === '"') {
+            let value = '';
+            i++;
+            while (i < input.length && input[i] !== '"') {
+                if (input[i] === '\\') {
+                    i++;
+                }
+                value += input[i++];
+            }
+            current.push(value);
+            i++;
+        } else if (char === '{') {
+            throw new CommandError('BAD', 'Literals are not supported');
+        } else {
+            let atom = '';
+            let depth = 0;
+            while (i < input.length && (depth > 0 || !' ()'.includes(input[i]))) {
+                if (input[i] === '[') depth++;
+                if (input[i] === ']') depth--;
+                atom += input[i++];
+            }
+            current.push(atom);
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new CommandError('BAD', 'Unbalanced parentheses');
+    }
+    return root;
+}
+
+function quote(value: string): string {
+    return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function section(source: Buffer, part?: string): Buffer {
+    if (!part) {
+        return source;
+    }
+    const headerEnd = source.indexOf(`${CRLF}${CRLF}`);
+    const split = headerEnd >= 0 ? headerEnd + 4 : source.length;
+    return part === 'HEADER' ? source.subarray(0, split) : source.subarray(split);
+}
+
+function headerValue(source: Buffer, name: string): string | undefined {
+    const header = section(source, 'HEADER').toString('utf8').replace(/\r\n[ \t]+/g, ' ');
+    const line = header.split(CRLF).find(l => l.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+    return line?.slice(name.length + 1).trim();
+}
+
+function envelope(source: Buffer): string {
+    // Non-ASCII header values would need a literal; they are left out instead
+    const nstring = (value?: string) => value && /^[\x20-\x7e]*$/.test(value) ? quote(value) : 'NIL';
+    return `(${nstring(headerValue(source, 'Date'))} ${nstring(headerValue(source, 'Subject'))} NIL NIL NIL NIL NIL NIL `
+        + `${nstring(headerValue(source, 'In-Reply-To'))} ${nstring(headerValue(source, 'Message-ID'))})`;
+}
+
+function formatInternalDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(date.getUTCDate())}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} `
+        + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
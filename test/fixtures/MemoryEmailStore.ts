@@ -0,0 +1,159 @@
+import { EmailStore } from '../../src/services/EmailStore';
+import { EmailMessage, EmailSearchQuery, EmailSearchResult, IndexedEmail, IndexedEmailWithCategory } from '../../src/types';
+
+/**
+ * Email store kept in a Map, for tests that exercise the sync pipeline and need to look at
+ * indexed emails synchronously. Full-text search only filters by account and folder.
+ */
+export class MemoryEmailStore implements EmailStore {
+    readonly backend = 'memory';
+    private documents: Map<string, IndexedEmailWithCategory> = new Map();
+
+    /**
+     * Indexed emails of an account, optionally of one folder, by UID
+     */
+    list(accountName: string, folder?: string): IndexedEmailWithCategory[] {
+        return [...this.documents.values()]
+            .filter(email => email.accountName === accountName && (!folder || email.folder === folder))
+            .sort((a, b) => a.uid - b.uid);
+    }
+
+    async initialize(): Promise<void> {
+        return;
+    }
+
+    async close(): Promise<void> {
+        return;
+    }
+
+    async indexEmail(email: EmailMessage): Promise<void> {
+        this.documents.set(MemoryEmailStore.id(email.accountName, email.folder, email.uid), { ...email, indexed_at: new Date() });
+    }
+
+    async bulkIndexEmails(emails: EmailMessage[]): Promise<void> {
+        for (const email of emails) {
+            await this.indexEmail(email);
+        }
+    }
+
+    async emailExists(accountName: string, folder: string, uid: number): Promise<boolean> {
+        return this.documents.has(MemoryEmailStore.id(accountName, folder, uid));
+    }
+
+    async searchEmails(query: EmailSearchQuery, from: number = 0, size: number = 10): Promise<EmailSearchResult> {
+        const hits = [...this.documents.values()]
+            .filter(email => (!query.accountName || email.accountName === query.accountName)
+                && (!query.folder || email.folder === query.folder || !!email.labels?.includes(query.folder)))
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+        return { total: hits.length, hits: hits.slice(from, from + size) };
+    }
+
+    async getEmailByMessageId(messageId: string): Promise<IndexedEmail | null> {
+        return [...this.documents.values()].find(email => email.messageId === messageId) || null;
+    }
+
+    async getEmailStats(): Promise<any> {
+        return { totalEmails: this.documents.size, accountStats: [] };
+    }
+
+    async getHealth(): Promise<any> {
+        return { backend: this.backend, emails: this.documents.size };
+    }
+
+    async getEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<IndexedEmailWithCategory[]> {
+        return this.list(accountName, folder).filter(email => uids.includes(email.uid));
+    }
+
+    async getIndexedFlags(accountName: string, folder: string): Promise<Map<number, string[]>> {
+        return new Map(this.list(accountName, folder).map(email => [email.uid, email.flags]));
+    }
+
+    async updateEmailFlags(accountName: string, folder: string, updates: { uid: number; flags: string[]; labels?: string[] }[]): Promise<void> {
+        for (const { uid, flags, labels } of updates) {
+            const email = this.documents.get(MemoryEmailStore.id(accountName, folder, uid));
+            if (email) {
+                email.flags = flags;
+                if (labels) {
+                    email.labels = labels;
+                }
+            }
+        }
+    }
+
+    async deleteEmailsByAccount(accountName: string): Promise<void> {
+        this.deleteWhere(email => email.accountName === accountName);
+    }
+
+    async deleteEmailsByFolder(accountName: string, folder: string): Promise<void> {
+        this.deleteWhere(email => email.accountName === accountName && email.folder === folder);
+    }
+
+    async deleteEmailsOutsideFolder(accountName: string, folder: string): Promise<number> {
+        return this.deleteWhere(email => email.accountName === accountName && email.folder !== folder);
+    }
+
+    async deleteEmailsByUID(accountName: string, folder: string, uids: number[]): Promise<void> {
+        this.deleteWhere(email => email.accountName === accountName && email.folder === folder && uids.includes(email.uid));
+    }
+
+    async getThreadIdsByMessageIds(messageIds: string[]): Promise<Map<string, string>> {
+        const threadIds = new Map<string, string>();
+        for (const email of this.documents.values()) {
+            if (email.threadId && messageIds.includes(email.messageId)) {
+                threadIds.set(email.messageId, email.threadId);
+            }
+        }
+        return threadIds;
+    }
+
+    async getThreadIdsReferencing(messageId: string): Promise<string[]> {
+        const threadIds = [...this.documents.values()]
+            .filter(email => email.threadId && (email.inReplyTo === messageId || email.references?.includes(messageId)))
+            .map(email => email.threadId!);
+        return [...new Set(threadIds)];
+    }
+
+    async getThreadIdByGmailThreadId(accountName: string, gmailThreadId: string): Promise<string | null> {
+        const email = [...this.documents.values()]
+            .find(e => e.threadId && e.accountName === accountName && e.gmailThreadId === gmailThreadId);
+        return email?.threadId || null;
+    }
+
+    async getThreadIdBySubject(normalizedSubject: string, before: Date, maxAgeDays: number): Promise<string | null> {
+        const after = before.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+        const email = [...this.documents.values()]
+            .filter(e => e.threadId && e.normalizedSubject === normalizedSubject)
+            .filter(e => new Date(e.date).getTime() <= before.getTime() && new Date(e.date).getTime() >= after)
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+        return email?.threadId || null;
+    }
+
+    async reassignThreads(fromThreadIds: string[], toThreadId: string): Promise<void> {
+        for (const email of this.documents.values()) {
+            if (email.threadId && fromThreadIds.includes(email.threadId)) {
+                email.threadId = toThreadId;
+            }
+        }
+    }
+
+    async getThread(threadId: string): Promise<IndexedEmail[]> {
+        return [...this.documents.values()]
+            .filter(email => email.threadId === threadId)
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    }
+
+    private deleteWhere(predicate: (email: IndexedEmailWithCategory) => boolean): number {
+        let deleted = 0;
+        for (const [id, email] of this.documents) {
+            if (predicate(email)) {
+                this.documents.delete(id);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+
+    private static id(accountName: string, folder: string, uid: number): string {
+        return `${accountName}-${folder}-${uid}`;
+    }
+}
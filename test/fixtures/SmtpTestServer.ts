@@ -0,0 +1,177 @@
+import net from 'net';
+
+const CRLF = '\r\n';
+
+export interface ReceivedMail {
+    // AUTH PLAIN user, when the client logged in
+    user?: string;
+    password?: string;
+    from: string;
+    to: string[];
+    // The message as sent, with dot-stuffing undone
+    data: Buffer;
+}
+
+/**
+ * A local SMTP sink for integration tests. It accepts EHLO/HELO, AUTH PLAIN, MAIL FROM,
+ * RCPT TO, DATA, RSET, NOOP and QUIT without TLS, and keeps every message it receives.
+ * Recipients listed in rejectRecipients are refused with a 550.
+ */
+export class SmtpTestServer {
+    public readonly received: ReceivedMail[] = [];
+    public readonly rejectRecipients: Set<string> = new Set();
+    private server: net.Server;
+    private sockets: Set<net.Socket> = new Set();
+
+    constructor() {
+        this.server = net.createServer(socket => {
+            this.sockets.add(socket);
+            socket.once('close', () => this.sockets.delete(socket));
+            new SmtpSession(this, socket);
+        });
+    }
+
+    /**
+     * Start listening on a free local port, which is returned
+     */
+    listen(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(0, '127.0.0.1', () => resolve(this.port));
+        });
+    }
+
+    get port(): number {
+        return (this.server.address() as net.AddressInfo).port;
+    }
+
+    async close(): Promise<void> {
+        this.sockets.forEach(socket => socket.destroy());
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+}
+
+class SmtpSession {
+    private server: SmtpTestServer;
+    private socket: net.Socket;
+    // Received bytes as latin1, so message data keeps its bytes
+    private buffer: string = '';
+    private readingData: boolean = false;
+    private user?: string;
+    private password?: string;
+    private from?: string;
+    private to: string[] = [];
+
+    constructor(server: SmtpTestServer, socket: net.Socket) {
+        this.server = server;
+        this.socket = socket;
+        socket.on('data', data => this.receive(data.toString('latin1')));
+        socket.on('error', () => undefined);
+        this.send('220 localhost SMTP test server ready');
+    }
+
+    private receive(data: string): void {
+        this.buffer += data;
+
+        while (true) {
+            if (this.readingData) {
+                const end = this.buffer.indexOf(`${CRLF}.${CRLF}`);
+                if (end < 0) {
+                    return;
+                }
+                const body = this.buffer.slice(0, end + CRLF.length).replace(/^\.\./gm, '.');
+                this.buffer = this.buffer.slice(end + CRLF.length * 2 + 1);
+                this.readingData = false;
+                this.server.received.push({
+                    user: this.user,
+                    password: this.password,
+                    from: this.from || '',
+                    to: this.to,
+                    data: Buffer.from(body, 'latin1')
+                });
+                this.from = undefined;
+                this.to = [];
+                this.send('250 Message accepted');
+                continue;
+            }
+
+            const end = this.buffer.indexOf(CRLF);
+            if (end < 0) {
+                return;
+            }
+            const line = this.buffer.slice(0, end);
+            this.buffer = this.buffer.slice(end + CRLF.length);
+            this.handleLine(line);
+        }
+    }
+
+    private handleLine(line: string): void {
+        const [verb, ...rest] = line.split(' ');
+        const argument = rest.join(' ');
+        const address = () => /<([^>]*)>/.exec(argument)?.[1] ?? '';
+
+        switch (verb.toUpperCase()) {
+            case 'EHLO':
+                this.send('250-localhost');
+                this.send('250 AUTH PLAIN');
+                return;
+            case 'HELO':
+                this.send('250 localhost');
+                return;
+            case 'AUTH': {
+                const [mechanism, initial] = rest;
+                if (mechanism?.toUpperCase() !== 'PLAIN' || !initial) {
+                    this.send('504 Only AUTH PLAIN with an initial response is supported');
+                    return;
+                }
+                const [, user, password] = Buffer.from(initial, 'base64').toString('utf8').split('\0');
+                this.user = user;
+                this.password = password;
+                this.send('235 Authentication successful');
+                return;
+            }
+            case 'MAIL':
+                this.from = address();
+                this.send('250 OK');
+                return;
+            case 'RCPT': {
+                const recipient = address();
+                if (this.server.rejectRecipients.has(recipient)) {
+                    this.send(`550 No such user ${recipient}`);
+                    return;
+                }
+                this.to.push(recipient);
+                this.send('250 OK');
+                return;
+            }
+            case 'DATA':
+                if (!this.from || this.to.length === 0) {
+                    this.send('503 Need MAIL FROM and RCPT TO first');
+                    return;
+                }
+                this.readingData = true;
+                this.send('354 End data with <CR><LF>.<CR><LF>');
+                return;
+            case 'RSET':
+                this.from = undefined;
+                this.to = [];
+                this.send('250 OK');
+                return;
+            case 'NOOP':
+                this.send('250 OK');
+                return;
+            case 'QUIT':
+                this.send('221 Bye');
+                this.socket.end();
+                return;
+            default:
+                this.send(`502 ${verb} is not implemented`);
+        }
+    }
+
+    private send(line: string): void {
+        if (!this.socket.destroyed) {
+            this.socket.write(line + CRLF);
+        }
+    }
+}
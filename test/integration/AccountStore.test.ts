@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountStore } from '../../src/services/AccountStore';
+import { IMAPConfig } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+logger.silent = !process.env.TEST_LOGS;
+
+const CONFIG: IMAPConfig = { accountName: 'work', host: 'imap.example.com', port: 993, user: 'me@example.com', tls: true };
+
+describe('AccountStore', () => {
+    let dataDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'account-store-test-'));
+        filePath = path.join(dataDir, 'accounts.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('starts empty without a file and keeps saved accounts across restarts', async () => {
+        const store = new AccountStore(filePath);
+        assert.deepEqual(await store.load(), []);
+        await store.save(CONFIG);
+
+        assert.deepEqual(await new AccountStore(filePath).load(), [CONFIG]);
+    });
+
+    it('refuses to load a corrupt file and leaves it untouched', async () => {
+        await fs.writeFile(filePath, '[{"accountName": "work",');
+
+        await assert.rejects(new AccountStore(filePath).load(), /is corrupt/);
+        await fs.writeFile(filePath, '{"accountName": "work"}');
+        await assert.rejects(new AccountStore(filePath).load(), /expected a list of accounts/);
+        assert.equal(await fs.readFile(filePath, 'utf8'), '{"accountName": "work"}');
+    });
+});
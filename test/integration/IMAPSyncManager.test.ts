@@ -0,0 +1,436 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import net, { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { IMAPSyncManager } from '../../src/services/IMAPSyncManager';
+import { EmailCategorizationService } from '../../src/services/EmailCategorizationService';
+import { SyncStateStore } from '../../src/services/SyncStateStore';
+import { AccountStore } from '../../src/services/AccountStore';
+import { CredentialVault } from '../../src/services/CredentialVault';
+import { AttachmentStore } from '../../src/services/AttachmentStore';
+import { AccountConnectionState, EmailMessage } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+import { RequestError } from '../../src/utils/errors';
+import { ImapTestServer } from '../fixtures/ImapTestServer';
+import { MemoryEmailStore } from '../fixtures/MemoryEmailStore';
+import { SmtpTestServer } from '../fixtures/SmtpTestServer';
+
+const MAIL_DIR = path.join(__dirname, '..', 'fixtures', 'mail');
+const ACCOUNT = 'test';
+
+// Reconnect quickly, so tests that drop the connection don't wait for the production backoff
+process.env.IMAP_RECONNECT_BASE_DELAY_MS = '50';
+process.env.IMAP_RECONNECT_MAX_DELAY_MS = '200';
+logger.silent = !process.env.TEST_LOGS;
+
+// Keeps tests away from the Gemini API
+const categorizationService = {
+    categorizeEmail: async (email: EmailMessage) => ({
+        messageId: email.messageId,
+        category: 'NOT_INTERESTED',
+        confidence: 1,
+        categorizedAt: new Date()
+    })
+} as unknown as EmailCategorizationService;
+
+async function waitFor(description: string, condition: () => boolean, timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting until ${description}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
+
+function buildMessage(subject: string, messageId: string): string {
+    return [
+        'From: Dave Example <dave@example.com>',
+        'To: user@example.com',
+        `Subject: ${subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${messageId}>`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        `${subject}, sent while the client was watching.`,
+        ''
+    ].join('\r\n');
+}
+
+describe('IMAPSyncManager against the IMAP test server', () => {
+    let server: ImapTestServer;
+    let index: MemoryEmailStore;
+    let manager: IMAPSyncManager;
+    let dataDir: string;
+    let states: AccountConnectionState[];
+
+    const subjects = (folder: string) => index.list(ACCOUNT, folder).map(email => email.subject);
+    const accountStatus = () => manager.getAccountStatus()[0];
+
+    beforeEach(async () => {
+        server = new ImapTestServer();
+        server.addMailbox('Archive', '\\Archive');
+        await server.seedFromDirectory('INBOX', path.join(MAIL_DIR, 'inbox'));
+        await server.seedFromDirectory('Archive', path.join(MAIL_DIR, 'archive'));
+        server.setFlags('INBOX', 1, ['\\Seen']);
+        const port = await server.listen();
+
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imap-sync-test-'));
+        index = new MemoryEmailStore();
+        manager = new IMAPSyncManager({
+            accounts: [{
+                config: { accountName: ACCOUNT, host: '127.0.0.1', port, user: 'user@example.com', tls: false },
+                secrets: { password: 'secret' }
+            }],
+            emailStore: index,
+            categorizationService,
+            syncStateStore: new SyncStateStore(path.join(dataDir, 'sync-state.json')),
+            accountStore: new AccountStore(path.join(dataDir, 'accounts.json')),
+            credentialVault: new CredentialVault(path.join(dataDir, 'credentials.vault.json')),
+            attachmentStore: new AttachmentStore(path.join(dataDir, 'attachments'))
+        });
+
+        states = [];
+        manager.events.on('account.stateChanged', ({ state }) => {
+            states.push(state);
+        });
+        await manager.start();
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+        await server.close();
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('indexes every folder on the initial sync', () => {
+        assert.deepEqual(subjects('INBOX'), ['Welcome aboard', 'Planning meeting', 'Re: Planning meeting']);
+        assert.deepEqual(subjects('Archive'), ['Your invoice for September']);
+
+        const [welcome, meeting, reply] = index.list(ACCOUNT, 'INBOX');
+        assert.deepEqual(welcome.flags, ['\\Seen']);
+        assert.equal(meeting.body.trim(), 'Can we meet on Thursday at 14:00 to plan the release?');
+        assert.ok(meeting.htmlBody?.includes('<b>Thursday at 14:00</b>'));
+        assert.equal(reply.threadId, meeting.threadId);
+        assert.notEqual(welcome.threadId, meeting.threadId);
+        assert.equal(reply.category?.category, 'NOT_INTERESTED');
+
+        assert.equal(accountStatus().state, 'idle');
+        assert.equal(accountStatus().updateMode, 'idle');
+        assert.deepEqual(states, ['connecting', 'syncing', 'idle']);
+    });
+
+    it('indexes mail announced while the connection is in IDLE', async () => {
+        await waitFor('the client is idling', () => server.idlingSessions === 1);
+        const received: string[] = [];
+        manager.events.on('email.indexed', ({ email }) => {
+            received.push(email.subject);
+        });
+
+        const uid = server.deliver('INBOX', buildMessage('Release notes', 'release-1@example.com'));
+
+        await waitFor('the new email is indexed', () => subjects('INBOX').includes('Release notes'));
+        assert.equal(index.list(ACCOUNT, 'INBOX').find(email => email.subject === 'Release notes')?.uid, uid);
+        assert.deepEqual(received, ['Release notes']);
+        assert.ok(server.commandLog.includes('IDLE'));
+    });
+
+    it('fetches mail again when indexing it failed', async () => {
+        await waitFor('the client is idling', () => server.idlingSessions === 1);
+        let failures = 0;
+        const indexEmail = index.indexEmail.bind(index);
+        index.indexEmail = async (email) => {
+            if (email.subject === 'Flaky delivery' && failures === 0) {
+                failures++;
+                throw new Error('Store unavailable');
+            }
+            return indexEmail(email);
+        };
+
+        server.deliver('INBOX', buildMessage('Flaky delivery', 'flaky-1@example.com'));
+        await waitFor('indexing failed once', () => failures === 1);
+
+        // The next new-mail check starts below the failed UID, so both are indexed
+        server.deliver('INBOX', buildMessage('Next delivery', 'next-1@example.com'));
+        await waitFor('both emails are indexed', () => subjects('INBOX').includes('Flaky delivery')
+            && subjects('INBOX').includes('Next delivery'));
+        assert.equal(index.list(ACCOUNT, 'INBOX').length, 5);
+    });
+
+    it('applies flag changes and expunges made by another client', async () => {
+        await waitFor('the client is idling', () => server.idlingSessions === 1);
+
+        server.setFlags('INBOX', 2, ['\\Flagged']);
+        server.expunge('INBOX', [1]);
+
+        // Changes are reconciled after a short delay that batches bursts of updates
+        await waitFor('the changes are indexed', () => subjects('INBOX').length === 2
+            && index.list(ACCOUNT, 'INBOX')[0].flags.includes('\\Flagged'), 8000);
+        assert.deepEqual(subjects('INBOX'), ['Planning meeting', 'Re: Planning meeting']);
+    });
+
+    it('stores flags and expunges on the server for email actions', async () => {
+        await manager.applyEmailAction('markRead', [{ accountName: ACCOUNT, folder: 'INBOX', uid: 2 }]);
+        assert.deepEqual(server.getMessages('INBOX').find(message => message.uid === 2)?.flags, ['\\Seen']);
+        assert.deepEqual(index.list(ACCOUNT, 'INBOX')[1].flags, ['\\Seen']);
+
+        // Without a Trash folder, deleting expunges right away
+        await manager.applyEmailAction('delete', [{ accountName: ACCOUNT, folder: 'INBOX', uid: 3 }]);
+        assert.deepEqual(server.getMessages('INBOX').map(message => message.uid), [1, 2]);
+        assert.deepEqual(subjects('INBOX'), ['Welcome aboard', 'Planning meeting']);
+        assert.ok(server.commandLog.includes('UID STORE'));
+        assert.ok(server.commandLog.includes('UID EXPUNGE'));
+    });
+
+    it('fails an email action, leaving the server alone, when the index cannot be updated', async () => {
+        index.updateEmailFlags = async () => {
+            throw new Error('Failed to update flags of 1 email(s): version conflict');
+        };
+
+        await assert.rejects(manager.applyEmailAction('markRead', [{ accountName: ACCOUNT, folder: 'INBOX', uid: 2 }]), (error: unknown) => {
+            assert.ok(error instanceof RequestError);
+            assert.equal(error.statusCode, 502);
+            assert.match(error.message, /version conflict \(rolling back flags in test\/INBOX in the index failed too\)/);
+            return true;
+        });
+        assert.deepEqual(server.getMessages('INBOX').find(message => message.uid === 2)?.flags, []);
+        assert.ok(!server.commandLog.includes('UID STORE'));
+    });
+
+    it('reconnects after the connection drops and catches up on missed mail', async () => {
+        await waitFor('the client is idling', () => server.idlingSessions === 1);
+        states = [];
+
+        server.dropConnections();
+        server.deliver('INBOX', buildMessage('Sent during the outage', 'outage-1@example.com'));
+
+        await waitFor('the account is back in IDLE', () => accountStatus().state === 'idle' && server.idlingSessions === 1);
+        assert.deepEqual(states, ['backoff', 'connecting', 'syncing', 'idle']);
+        assert.equal(accountStatus().reconnectAttempts, 0);
+        assert.ok(subjects('INBOX').includes('Sent during the outage'));
+        assert.equal(index.list(ACCOUNT, 'INBOX').length, 4);
+    });
+
+    // A second manager on the same server that walks the full history on connect
+    const createBackfillManager = (emailStore: MemoryEmailStore) => {
+        process.env.IMAP_SYNC_MODE = 'backfill';
+        try {
+            return new IMAPSyncManager({
+                accounts: [{
+                    config: { accountName: 'backfill', host: '127.0.0.1', port: server.port, user: 'user@example.com', tls: false },
+                    secrets: { password: 'secret' }
+                }],
+                emailStore,
+                categorizationService,
+                syncStateStore: new SyncStateStore(path.join(dataDir, 'backfill-sync-state.json')),
+                accountStore: new AccountStore(path.join(dataDir, 'backfill-accounts.json')),
+                credentialVault: new CredentialVault(path.join(dataDir, 'backfill-credentials.vault.json')),
+                attachmentStore: new AttachmentStore(path.join(dataDir, 'attachments'))
+            });
+        } finally {
+            delete process.env.IMAP_SYNC_MODE;
+        }
+    };
+
+    it('marks mail indexed by the history backfill as historic', async () => {
+        const backfilling = createBackfillManager(new MemoryEmailStore());
+
+        const indexed: [string, boolean][] = [];
+        backfilling.events.on('email.indexed', ({ email, historic }) => {
+            indexed.push([email.subject, historic]);
+        });
+
+        try {
+            await backfilling.start();
+            await waitFor('the backfill completes', () => backfilling.getBackfillProgress().length === 2
+                && backfilling.getBackfillProgress().every(progress => progress.status === 'completed'));
+            assert.equal(indexed.length, 4);
+            assert.ok(indexed.every(([, historic]) => historic));
+
+            server.deliver('INBOX', buildMessage('After the backfill', 'after-backfill-1@example.com'));
+            await waitFor('the new email is indexed', () => indexed.length === 5);
+            assert.deepEqual(indexed[4], ['After the backfill', false]);
+        } finally {
+            await backfilling.stop();
+        }
+    });
+
+    it('resumes a backfill at mail that failed to index', async () => {
+        const backfillIndex = new MemoryEmailStore();
+        const backfilling = createBackfillManager(backfillIndex);
+        let failures = 0;
+        const indexEmail = backfillIndex.indexEmail.bind(backfillIndex);
+        backfillIndex.indexEmail = async (email) => {
+            if (email.subject === 'Planning meeting' && failures === 0) {
+                failures++;
+                throw new Error('Store unavailable');
+            }
+            return indexEmail(email);
+        };
+        const inbox = () => backfilling.getBackfillProgress().find(progress => progress.folder === 'INBOX');
+        const backfillSubjects = () => backfillIndex.list('backfill', 'INBOX').map(email => email.subject);
+
+        try {
+            await backfilling.start();
+            await waitFor('the backfill stops', () => backfilling.getBackfillProgress().length === 2
+                && backfilling.getBackfillProgress().every(progress => !progress.active));
+            assert.equal(inbox()?.status, 'failed');
+            // The rest of the batch was indexed, but the cursor stays above the failed UID 2
+            assert.equal(inbox()?.oldestProcessedUID, 3);
+            assert.deepEqual(backfillSubjects(), ['Welcome aboard', 'Re: Planning meeting']);
+
+            assert.deepEqual(backfilling.startBackfill('backfill'), ['backfill']);
+            await waitFor('the backfill completes', () => inbox()?.status === 'completed');
+            assert.deepEqual(backfillSubjects(), ['Welcome aboard', 'Planning meeting', 'Re: Planning meeting']);
+            assert.equal(inbox()?.processedMessages, 3);
+        } finally {
+            await backfilling.stop();
+        }
+    });
+
+    it('closes a connection that is still being opened when the manager stops', async () => {
+        // Accepts the connection but never greets, so the account stays in "connecting"
+        const held: net.Socket[] = [];
+        const silentServer = net.createServer(socket => held.push(socket));
+        await new Promise<void>(resolve => silentServer.listen(0, '127.0.0.1', resolve));
+
+        const connecting = new IMAPSyncManager({
+            accounts: [{
+                config: { accountName: 'silent', host: '127.0.0.1', port: (silentServer.address() as AddressInfo).port, user: 'user@example.com', tls: false },
+                secrets: { password: 'secret' }
+            }],
+            emailStore: new MemoryEmailStore(),
+            categorizationService,
+            syncStateStore: new SyncStateStore(path.join(dataDir, 'silent-sync-state.json')),
+            accountStore: new AccountStore(path.join(dataDir, 'silent-accounts.json')),
+            credentialVault: new CredentialVault(path.join(dataDir, 'silent-credentials.vault.json')),
+            attachmentStore: new AttachmentStore(path.join(dataDir, 'attachments'))
+        });
+
+        try {
+            const started = connecting.start();
+            await waitFor('the client connects', () => held.length === 1);
+            let closed = false;
+            held[0].once('close', () => closed = true);
+
+            await connecting.stop();
+            // Well before node-imap would give up on the greeting by itself
+            await waitFor('the connection is closed', () => closed, 1000);
+            await started;
+            assert.equal(connecting.getAccountStatus()[0].state, 'disabled');
+        } finally {
+            held.forEach(socket => socket.destroy());
+            await new Promise(resolve => silentServer.close(resolve));
+        }
+    });
+
+    it('re-indexes a folder whose UIDVALIDITY changed', async () => {
+        const threadId = index.list(ACCOUNT, 'INBOX')[1].threadId;
+        const deleted: (number[] | undefined)[] = [];
+        manager.events.on('email.deleted', ({ folder, uids }) => {
+            if (folder === 'INBOX') {
+                deleted.push(uids);
+            }
+        });
+
+        // The server drops clients that have the folder selected, so the account reconnects
+        server.resetUidValidity('INBOX', 101);
+
+        await waitFor('the folder is re-indexed', () => accountStatus().state === 'idle'
+            && index.list(ACCOUNT, 'INBOX').map(email => email.uid).join(',') === '101,102,103');
+        assert.deepEqual(subjects('INBOX'), ['Welcome aboard', 'Planning meeting', 'Re: Planning meeting']);
+        assert.deepEqual(deleted, [undefined]);
+        // Thread IDs come from Message-IDs, so conversations survive the new UIDs
+        assert.equal(index.list(ACCOUNT, 'INBOX')[1].threadId, threadId);
+        assert.deepEqual(subjects('Archive'), ['Your invoice for September']);
+    });
+});
+
+describe('IMAPSyncManager replies through the SMTP test server', () => {
+    let server: ImapTestServer;
+    let smtp: SmtpTestServer;
+    let index: MemoryEmailStore;
+    let manager: IMAPSyncManager;
+    let dataDir: string;
+
+    beforeEach(async () => {
+        server = new ImapTestServer();
+        server.addMailbox('Sent', '\\Sent');
+        await server.seedFromDirectory('INBOX', path.join(MAIL_DIR, 'inbox'));
+        const port = await server.listen();
+        smtp = new SmtpTestServer();
+        const smtpPort = await smtp.listen();
+
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imap-reply-test-'));
+        index = new MemoryEmailStore();
+        manager = new IMAPSyncManager({
+            accounts: [{
+                config: {
+                    accountName: ACCOUNT, host: '127.0.0.1', port, user: 'user@example.com', tls: false,
+                    smtp: { host: '127.0.0.1', port: smtpPort, secure: false }
+                },
+                secrets: { password: 'secret' }
+            }],
+            emailStore: index,
+            categorizationService,
+            syncStateStore: new SyncStateStore(path.join(dataDir, 'sync-state.json')),
+            accountStore: new AccountStore(path.join(dataDir, 'accounts.json')),
+            credentialVault: new CredentialVault(path.join(dataDir, 'credentials.vault.json')),
+            attachmentStore: new AttachmentStore(path.join(dataDir, 'attachments'))
+        });
+        await manager.start();
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+        await smtp.close();
+        await server.close();
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('sends a threaded reply, stores it in Sent and marks the original as answered', async () => {
+        const sent = await manager.sendReply('<meeting-2@example.com>', { body: 'Thursday works for me too.' });
+        assert.equal(sent.subject, 'Re: Planning meeting');
+        assert.deepEqual(sent.to, ['"Carol Example" <carol@example.com>']);
+        assert.equal(sent.sentFolder, 'Sent');
+
+        assert.equal(smtp.received.length, 1);
+        const [mail] = smtp.received;
+        assert.equal(mail.user, 'user@example.com');
+        assert.equal(mail.password, 'secret');
+        assert.equal(mail.from, 'user@example.com');
+        assert.deepEqual(mail.to, ['carol@example.com']);
+
+        const raw = mail.data.toString('utf8');
+        assert.match(raw, new RegExp(`^Message-ID: ${sent.messageId}\r$`, 'mi'));
+        assert.match(raw, /^In-Reply-To: <meeting-2@example\.com>\r$/mi);
+        assert.match(raw, /^References: <meeting-1@example\.com> <meeting-2@example\.com>\r$/mi);
+        assert.match(raw, /^Subject: Re: Planning meeting\r$/mi);
+        assert.match(raw, /Thursday works for me too\.\r\n\r\nOn Tue, 07 Oct 2025 11:15:00 GMT, .*Carol Example.* wrote:\r\n> Thursday works for me\./);
+
+        // Exactly the bytes that were sent are stored
+        const [stored] = server.getMessages('Sent');
+        assert.deepEqual(stored.flags, ['\\Seen']);
+        assert.equal(stored.source.toString('utf8'), raw);
+        assert.ok(server.commandLog.includes('APPEND'));
+
+        const original = server.getMessages('INBOX').find(message => message.uid === 3);
+        assert.ok(original?.flags.includes('\\Answered'));
+    });
+
+    it('reports a reply the SMTP server refused and stores nothing', async () => {
+        smtp.rejectRecipients.add('carol@example.com');
+
+        await assert.rejects(manager.sendReply('<meeting-2@example.com>', { body: 'Thursday works for me too.' }), (error: unknown) => {
+            assert.ok(error instanceof RequestError);
+            assert.equal(error.statusCode, 502);
+            assert.match(error.message, /Failed to send reply/);
+            return true;
+        });
+        assert.equal(smtp.received.length, 0);
+        assert.deepEqual(server.getMessages('Sent'), []);
+        assert.ok(!server.getMessages('INBOX').find(message => message.uid === 3)?.flags.includes('\\Answered'));
+    });
+});
@@ -0,0 +1,136 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OAuth2TokenProvider } from '../../src/services/OAuth2TokenProvider';
+import { AccountSecrets, IMAPConfig } from '../../src/types';
+import { AuthenticationError } from '../../src/utils/errors';
+import { logger } from '../../src/utils/logger';
+
+logger.silent = !process.env.TEST_LOGS;
+
+const SECRETS: AccountSecrets = { refreshToken: 'refresh-1', clientSecret: 'client-secret' };
+
+/**
+ * Token endpoint stand-in: records each request's form fields and answers with the next
+ * queued response, or a fresh access token valid for an hour
+ */
+class TokenEndpoint {
+    readonly requests: Record<string, string>[] = [];
+    private responses: { status: number; body: any }[] = [];
+    private server: http.Server;
+
+    constructor() {
+        this.server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                this.requests.push(Object.fromEntries(new URLSearchParams(body)));
+                const { status, body: response } = this.responses.shift()
+                    || { status: 200, body: { access_token: `access-${this.requests.length}`, expires_in: 3600 } };
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(response));
+            });
+        });
+    }
+
+    respond(status: number, body: any): void {
+        this.responses.push({ status, body });
+    }
+
+    async listen(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/token`;
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+describe('OAuth2TokenProvider', () => {
+    let endpoint: TokenEndpoint;
+    let config: IMAPConfig;
+    let provider: OAuth2TokenProvider;
+
+    before(async () => {
+        endpoint = new TokenEndpoint();
+        const tokenEndpoint = await endpoint.listen();
+        config = {
+            accountName: 'gmail',
+            host: 'imap.gmail.com',
+            port: 993,
+            user: 'me@example.com',
+            tls: true,
+            authMethod: 'oauth2',
+            oauth2: { clientId: 'client-1', tokenEndpoint }
+        };
+    });
+
+    after(async () => {
+        await endpoint.close();
+    });
+
+    beforeEach(() => {
+        endpoint.requests.length = 0;
+        provider = new OAuth2TokenProvider();
+    });
+
+    it('exchanges the refresh token and builds the XOAUTH2 string', async () => {
+        const token = await provider.getXOAuth2Token(config, SECRETS);
+
+        assert.equal(Buffer.from(token, 'base64').toString('utf8'), 'user=me@example.com\x01auth=Bearer access-1\x01\x01');
+        assert.deepEqual(endpoint.requests, [{
+            grant_type: 'refresh_token',
+            client_id: 'client-1',
+            refresh_token: 'refresh-1',
+            client_secret: 'client-secret'
+        }]);
+    });
+
+    it('caches the access token until shortly before it expires', async () => {
+        const [first, second] = await Promise.all([provider.getAccessToken(config, SECRETS), provider.getAccessToken(config, SECRETS)]);
+        assert.equal(first, 'access-1');
+        assert.equal(second, 'access-1');
+        assert.equal(await provider.getAccessToken(config, SECRETS), 'access-1');
+        assert.equal(endpoint.requests.length, 1);
+
+        assert.equal(await provider.getAccessToken(config, SECRETS, true), 'access-2');
+        provider.invalidate(config.accountName);
+        assert.equal(await provider.getAccessToken(config, SECRETS), 'access-3');
+
+        // Expires within the default five-minute refresh margin, so it is never reused
+        endpoint.respond(200, { access_token: 'short-lived', expires_in: 60 });
+        provider.invalidate(config.accountName);
+        assert.equal(await provider.getAccessToken(config, SECRETS), 'short-lived');
+        assert.equal(await provider.getAccessToken(config, SECRETS), 'access-5');
+        assert.equal(endpoint.requests.length, 5);
+    });
+
+    it('reports rejected refresh tokens as authentication errors and other failures as retryable', async () => {
+        endpoint.respond(400, { error: 'invalid_grant' });
+        await assert.rejects(provider.getAccessToken(config, SECRETS), (error: unknown) => {
+            assert.ok(error instanceof AuthenticationError);
+            assert.match(error.message, /rejected for gmail: invalid_grant/);
+            return true;
+        });
+
+        endpoint.respond(503, { error: 'temporarily_unavailable' });
+        await assert.rejects(provider.getAccessToken(config, SECRETS), (error: unknown) => {
+            assert.ok(!(error instanceof AuthenticationError));
+            assert.match(error instanceof Error ? error.message : '', /refresh failed for gmail: temporarily_unavailable/);
+            return true;
+        });
+
+        endpoint.respond(200, { token_type: 'Bearer' });
+        await assert.rejects(provider.getAccessToken(config, SECRETS), /did not contain an access_token/);
+
+        // Nothing was cached by the failures
+        assert.equal(await provider.getAccessToken(config, SECRETS), 'access-4');
+    });
+
+    it('fails without asking the endpoint when settings are incomplete', async () => {
+        await assert.rejects(provider.getAccessToken(config, {}), AuthenticationError);
+        assert.equal(endpoint.requests.length, 0);
+    });
+});
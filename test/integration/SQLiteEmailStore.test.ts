@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteEmailStore } from '../../src/services/SQLiteEmailStore';
+import { EmailMessage, IndexedEmailWithCategory } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+import { parseSearchQuery } from '../../src/utils/searchQuery';
+
+logger.silent = !process.env.TEST_LOGS;
+
+function buildEmail(uid: number, fields: Partial<IndexedEmailWithCategory> = {}): EmailMessage {
+    return {
+        uid,
+        messageId: `message-${uid}@example.com`,
+        subject: `Message ${uid}`,
+        from: 'Dave Example <dave@example.com>',
+        to: 'user@example.com',
+        date: new Date(Date.UTC(2025, 0, uid)),
+        body: 'Nothing to see here.',
+        folder: 'INBOX',
+        accountName: 'test',
+        flags: [],
+        ...fields
+    } as EmailMessage;
+}
+
+describe('SQLiteEmailStore', () => {
+    let dataDir: string;
+    let filePath: string;
+    let store: SQLiteEmailStore;
+
+    const uids = (emails: { uid: number }[]) => emails.map(email => email.uid);
+
+    beforeEach(async () => {
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-store-test-'));
+        filePath = path.join(dataDir, 'emails.sqlite');
+        store = new SQLiteEmailStore(filePath);
+        await store.initialize();
+
+        await store.bulkIndexEmails([
+            buildEmail(1, {
+                subject: 'Planning meeting',
+                body: 'Can we meet on Thursday to plan the release?',
+                threadId: 'thread-a',
+                flags: ['\\Seen'],
+                attachments: [{ filename: 'logo.png', contentType: 'image/png', size: 100, hash: 'logo', inline: true }]
+            }),
+            buildEmail(2, {
+                subject: 'Your invoice',
+                body: 'Payment is due in 30 days.',
+                attachments: [{ filename: 'invoice.pdf', contentType: 'application/pdf', size: 2000, hash: 'invoice', inline: false }],
+                attachmentText: 'Invoice total: 120 EUR',
+                category: { messageId: 'message-2@example.com', category: 'INTERESTED', confidence: 1, categorizedAt: new Date() }
+            }),
+            buildEmail(3, { subject: 'Re: Planning meeting', body: 'Thursday works for me & Bob.', threadId: 'thread-b', references: ['message-1@example.com'] }),
+            buildEmail(4, { folder: 'Archive', subject: 'Old release notes', from: 'Erin <erin@example.com>' })
+        ]);
+    });
+
+    afterEach(async () => {
+        await store.close();
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('matches every word of a text search, stemmed, newest first', async () => {
+        assert.deepEqual(uids((await store.searchEmails({ text: 'meetings' })).hits), [3, 1]);
+        assert.deepEqual(uids((await store.searchEmails({ text: 'plan release' })).hits), [1]);
+        assert.deepEqual(uids((await store.searchEmails({ text: 'release' })).hits), [4, 1]);
+        // Query syntax in user input is matched as plain words
+        assert.equal((await store.searchEmails({ text: 'meeting" OR "invoice' })).total, 0);
+    });
+
+    it('searches attachment text unless asked not to, but never returns it', async () => {
+        const { hits } = await store.searchEmails({ text: 'EUR' });
+        assert.deepEqual(uids(hits), [2]);
+        assert.equal(hits[0].attachmentText, undefined);
+        assert.equal((await store.searchEmails({ text: 'EUR', includeAttachments: false })).total, 0);
+    });
+
+    it('applies field, folder, flag, category and date filters with pagination', async () => {
+        assert.deepEqual(uids((await store.searchEmails({ subject: 'planning' })).hits), [3, 1]);
+        assert.deepEqual(uids((await store.searchEmails({ from: 'erin' })).hits), [4]);
+        assert.deepEqual(uids((await store.searchEmails({ folder: 'Archive' })).hits), [4]);
+        assert.deepEqual(uids((await store.searchEmails({ flags: ['\\Seen'] })).hits), [1]);
+        assert.deepEqual(uids((await store.searchEmails({ categories: ['INTERESTED'] })).hits), [2]);
+        assert.deepEqual(uids((await store.searchEmails({ dateFrom: new Date(Date.UTC(2025, 0, 2)), dateTo: new Date(Date.UTC(2025, 0, 3)) })).hits), [3, 2]);
+
+        const page = await store.searchEmails({ accountName: 'test' }, 1, 2);
+        assert.equal(page.total, 4);
+        assert.deepEqual(uids(page.hits), [3, 2]);
+    });
+
+    it('searches with a parsed query string', async () => {
+        const search = async (input: string) => uids((await store.searchEmails({ expression: parseSearchQuery(input)! })).hits);
+
+        assert.deepEqual(await search('meeting -is:read'), [3]);
+        assert.deepEqual(await search('subject:planning OR from:erin'), [4, 3, 1]);
+        assert.deepEqual(await search('from:dave@example.com -invoice'), [3, 1]);
+        assert.deepEqual(await search('has:attachment'), [2]);
+        assert.deepEqual(await search('"meet on thursday" after:2025/01/01 before:2025/01/02'), [1]);
+        assert.deepEqual(await search('folder:Archive OR category:interested'), [4, 2]);
+    });
+
+    it('keeps uncategorized and undated emails when a category or date is negated', async () => {
+        await store.indexEmail(buildEmail(5, { date: undefined, subject: 'Undated note' }));
+        const search = async (input: string) => uids((await store.searchEmails({ expression: parseSearchQuery(input)! })).hits).sort();
+
+        assert.deepEqual(await search('-category:interested'), [1, 3, 4, 5]);
+        assert.deepEqual(await search('-(category:interested OR folder:Archive)'), [1, 3, 5]);
+        assert.deepEqual(await search('-before:2025/01/03'), [3, 4, 5]);
+        assert.deepEqual(await search('-after:2025/01/03'), [1, 2, 5]);
+    });
+
+    it('marks up the matched terms of each hit', async () => {
+        const { hits } = await store.searchEmails({ expression: parseSearchQuery('thursday -from:erin')! });
+        assert.deepEqual(hits.map(hit => hit.highlight), [
+            { body: ['<mark>Thursday</mark> works for me &amp; Bob.'] },
+            { body: ['Can we meet on <mark>Thursday</mark> to plan the release?'] }
+        ]);
+
+        const [invoice] = (await store.searchEmails({ text: 'invoices' })).hits;
+        assert.deepEqual(invoice.highlight, { subject: ['Your <mark>invoice</mark>'] });
+        assert.equal((await store.searchEmails({ folder: 'Archive' })).hits[0].highlight, undefined);
+    });
+
+    it('updates flags and deletes emails from the search index too', async () => {
+        await store.updateEmailFlags('test', 'INBOX', [{ uid: 2, flags: ['\\Flagged'] }, { uid: 99, flags: [] }]);
+        assert.deepEqual([...(await store.getIndexedFlags('test', 'INBOX')).entries()], [[1, ['\\Seen']], [2, ['\\Flagged']], [3, []]]);
+
+        await store.deleteEmailsByUID('test', 'INBOX', [1]);
+        assert.equal(await store.emailExists('test', 'INBOX', 1), false);
+        assert.deepEqual(uids((await store.searchEmails({ text: 'meeting' })).hits), [3]);
+
+        assert.equal(await store.deleteEmailsOutsideFolder('test', 'INBOX'), 1);
+        const stats = await store.getEmailStats();
+        assert.equal(stats.totalEmails, 2);
+        assert.deepEqual(stats.accountStats[0].by_folder.buckets, [{ key: 'INBOX', doc_count: 2 }]);
+    });
+
+    it('finds and merges threads', async () => {
+        assert.deepEqual(await store.getThreadIdsReferencing('message-1@example.com'), ['thread-b']);
+        assert.deepEqual([...(await store.getThreadIdsByMessageIds(['message-1@example.com', 'message-2@example.com'])).entries()], [['message-1@example.com', 'thread-a']]);
+
+        await store.reassignThreads(['thread-b'], 'thread-a');
+        assert.deepEqual(uids(await store.getThread('thread-a')), [1, 3]);
+        assert.equal((await store.getEmailByMessageId('message-3@example.com'))?.threadId, 'thread-a');
+    });
+
+    it('keeps its contents across restarts', async () => {
+        await store.close();
+        store = new SQLiteEmailStore(filePath);
+        await store.initialize();
+
+        assert.equal((await store.searchEmails({})).total, 4);
+        assert.deepEqual(uids((await store.searchEmails({ text: 'invoice' })).hits), [2]);
+    });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SyncStateStore } from '../../src/services/SyncStateStore';
+import { logger } from '../../src/utils/logger';
+
+logger.silent = !process.env.TEST_LOGS;
+
+describe('SyncStateStore', () => {
+    let dataDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-state-store-test-'));
+        filePath = path.join(dataDir, 'sync-state.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('starts empty without a file and keeps folder state across restarts', async () => {
+        const store = new SyncStateStore(filePath);
+        await store.load();
+        assert.deepEqual(store.getAllFolderStates(), []);
+        await store.resetFolder('work', 'INBOX', 42);
+
+        const restarted = new SyncStateStore(filePath);
+        await restarted.load();
+        assert.equal(restarted.getFolderState('work', 'INBOX')?.uidValidity, 42);
+    });
+
+    it('refuses to load a corrupt file and leaves it untouched', async () => {
+        await fs.writeFile(filePath, '{"version": 1, "folders": {');
+
+        await assert.rejects(new SyncStateStore(filePath).load(), /is corrupt/);
+        await fs.writeFile(filePath, '[]');
+        await assert.rejects(new SyncStateStore(filePath).load(), /expected an object/);
+        assert.equal(await fs.readFile(filePath, 'utf8'), '[]');
+    });
+});
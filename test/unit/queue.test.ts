@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProcessingQueue } from '../../src/utils/queue';
+
+describe('ProcessingQueue', () => {
+    it('never runs more tasks at once than its concurrency', async () => {
+        const queue = new ProcessingQueue(2);
+        let running = 0;
+        let peak = 0;
+
+        const track = async (wait: Promise<unknown>) => {
+            running++;
+            peak = Math.max(peak, running);
+            await wait;
+            running--;
+        };
+        const pause = () => new Promise(resolve => setTimeout(resolve, 10));
+
+        let release!: () => void;
+        const gate = new Promise<void>(resolve => release = resolve);
+        const first: Promise<void>[] = [];
+        const runs = [1, 2].map(() => queue.run(() => {
+            const task = track(gate);
+            first.push(task);
+            return task;
+        }));
+        runs.push(queue.run(() => track(pause())), queue.run(() => track(pause())));
+
+        // Queued after both slots were given up, before the waiting tasks have resumed
+        const late = first[1].then(() => Promise.all([queue.run(() => track(pause())), queue.run(() => track(pause()))]));
+        release();
+        await Promise.all([...runs, late]);
+
+        assert.equal(peak, 2);
+        assert.equal(queue.size, 0);
+    });
+
+    it('starts waiting tasks in order and frees the slot of a failed task', async () => {
+        const queue = new ProcessingQueue(1);
+        const started: string[] = [];
+
+        const failing = queue.run(async () => {
+            started.push('a');
+            throw new Error('failed');
+        });
+        const later = ['b', 'c'].map(id => queue.run(async () => {
+            started.push(id);
+        }));
+
+        await assert.rejects(failing, /failed/);
+        await Promise.all(later);
+        assert.deepEqual(started, ['a', 'b', 'c']);
+        assert.equal(queue.size, 0);
+    });
+});
@@ -0,0 +1,51 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { redactResponses, REDACTED } from '../../src/utils/redact';
+
+const EMAIL_BODY = 'Your new password=hunter2, or use Authorization: Bearer abc.def';
+
+describe('redactResponses', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    before(async () => {
+        const app = express();
+        app.use(redactResponses(['/api/accounts']));
+        app.get('/api/accounts', (req, res) => {
+            res.json([{ name: 'work', auth: { user: 'me', pass: 'secret' } }]);
+        });
+        app.get('/api/emails/search', (req, res) => {
+            res.json({ hits: [{ subject: 'Password reset', body: EMAIL_BODY, pass: 'not a secret here' }] });
+        });
+        app.get('/api/emails/fail', (req, res) => {
+            res.status(502).json({ error: 'Login failed with password=hunter2' });
+        });
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const get = async (route: string) => (await fetch(`${baseUrl}${route}`)).json();
+
+    it('masks secrets in responses of the listed routes', async () => {
+        assert.deepEqual(await get('/api/accounts'), [{ name: 'work', auth: { user: 'me', pass: REDACTED } }]);
+    });
+
+    it('returns email content unchanged', async () => {
+        assert.deepEqual(await get('/api/emails/search'), {
+            hits: [{ subject: 'Password reset', body: EMAIL_BODY, pass: 'not a secret here' }]
+        });
+    });
+
+    it('masks secrets in error responses of any route', async () => {
+        assert.deepEqual(await get('/api/emails/fail'), { error: `Login failed with password=${REDACTED}` });
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSearchQuery } from '../../src/utils/searchQuery';
+import { RequestError } from '../../src/utils/errors';
+
+const text = (value: string) => ({ type: 'text', value, phrase: false });
+
+function assertInvalid(input: string, message: RegExp): void {
+    assert.throws(() => parseSearchQuery(input), (error: unknown) => {
+        assert.ok(error instanceof RequestError);
+        assert.equal(error.statusCode, 400);
+        assert.match(error.message, message);
+        return true;
+    });
+}
+
+describe('parseSearchQuery', () => {
+    it('returns null for a blank query', () => {
+        assert.equal(parseSearchQuery('   '), null);
+    });
+
+    it('ANDs words and phrases', () => {
+        assert.deepEqual(parseSearchQuery('release "planning meeting"'), {
+            type: 'and',
+            clauses: [text('release'), { type: 'text', value: 'planning meeting', phrase: true }]
+        });
+    });
+
+    it('parses operators', () => {
+        assert.deepEqual(parseSearchQuery('from:alice@example.com subject:"weekly report" category:meeting-booked is:unread has:attachment'), {
+            type: 'and',
+            clauses: [
+                { type: 'text', field: 'from', value: 'alice@example.com', phrase: false },
+                { type: 'text', field: 'subject', value: 'weekly report', phrase: true },
+                { type: 'category', category: 'MEETING_BOOKED' },
+                { type: 'flag', flag: '\\Seen', present: false },
+                { type: 'hasAttachment' }
+            ]
+        });
+        assert.deepEqual(parseSearchQuery('after:2025/01/31 before:2025-02-01 folder:"[Gmail]/Sent Mail" account:work'), {
+            type: 'and',
+            clauses: [
+                { type: 'date', after: new Date('2025-01-31T00:00:00Z') },
+                { type: 'date', before: new Date('2025-02-01T00:00:00Z') },
+                { type: 'folder', folder: '[Gmail]/Sent Mail' },
+                { type: 'account', accountName: 'work' }
+            ]
+        });
+    });
+
+    it('searches unknown operators as text', () => {
+        assert.deepEqual(parseSearchQuery('re:invoice'), text('re:invoice'));
+    });
+
+    it('binds OR tighter than the implicit AND and supports negation and groups', () => {
+        assert.deepEqual(parseSearchQuery('invoice OR receipt -is:read'), {
+            type: 'and',
+            clauses: [
+                { type: 'or', clauses: [text('invoice'), text('receipt')] },
+                { type: 'not', clause: { type: 'flag', flag: '\\Seen', present: true } }
+            ]
+        });
+        assert.deepEqual(parseSearchQuery('-(from:bob OR category:spam) AND e-mail'), {
+            type: 'and',
+            clauses: [
+                {
+                    type: 'not',
+                    clause: {
+                        type: 'or',
+                        clauses: [
+                            { type: 'text', field: 'from', value: 'bob', phrase: false },
+                            { type: 'category', category: 'SPAM' }
+                        ]
+                    }
+                },
+                text('e-mail')
+            ]
+        });
+    });
+
+    it('reports what is wrong with a malformed query and where', () => {
+        assertInvalid('subject:"weekly report', /missing closing quote \(at character 9\)/);
+        assertInvalid('(invoice OR receipt', /missing "\)" to close this group \(at character 1\)/);
+        assertInvalid('invoice)', /unexpected "\)"/);
+        assertInvalid('invoice OR', /"OR" needs a term on both sides \(at character 9\)/);
+        assertInvalid('OR invoice', /"OR" needs a term on both sides/);
+        assertInvalid('from: alice', /"from:" needs a value/);
+        assertInvalid('is:urgent', /unknown value "urgent" for "is:"; use one of read, unread, starred, unstarred/);
+        assertInvalid('category:newsletters', /unknown category "newsletters"/);
+        assertInvalid('has:pdf', /only has:attachment/);
+        assertInvalid('before:2025/02/30', /invalid date "2025\/02\/30" for "before:"/);
+        assertInvalid('invoice -', /"-" must be followed by a term/);
+        assertInvalid('()', /empty parentheses/);
+    });
+});